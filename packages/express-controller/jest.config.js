@@ -15,5 +15,9 @@ module.exports = {
   ],
   setupFilesAfterEnv: ['<rootDir>/tests/setup.ts'],
   moduleDirectories: ['node_modules', '<rootDir>/src'],
+  // 빌드 없이 워크스페이스의 ts5deco-inject 소스로 테스트
+  moduleNameMapper: {
+    '^ts5deco-inject$': '<rootDir>/../inject/src'
+  },
   testTimeout: 10000,
 };
\ No newline at end of file
@@ -11,6 +11,7 @@ export * from './types';
 export * from './types/openapi';
 export * from './types/branded-response';
 export * from './router';
+export * from './request-scope';
 export * from './metadata';
 export * from './responses';
 
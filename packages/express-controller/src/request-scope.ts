@@ -0,0 +1,158 @@
+import { randomUUID } from 'crypto';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { ControllerContainer } from './types';
+
+/**
+ * 요청 컨테이너에 기본으로 등록되는 토큰
+ */
+export const REQUEST_SCOPE_TOKENS = {
+  REQUEST: 'ts5deco:request',
+  RESPONSE: 'ts5deco:response',
+  USER: 'ts5deco:user',
+  CORRELATION_ID: 'ts5deco:correlation-id'
+} as const;
+
+/**
+ * 요청 스코프 미들웨어 옵션
+ */
+export interface RequestScopeOptions {
+  /**
+   * correlation id를 읽어올 헤더 이름 (기본값: 'x-correlation-id')
+   */
+  correlationIdHeader?: string;
+  /**
+   * 요청 컨테이너에 추가로 등록할 값들
+   */
+  provide?: (req: Request, res: Response) => Array<{ token: string; value: unknown }>;
+  /**
+   * 요청 컨테이너 dispose 실패 시 호출 (기본값: console.error로 출력)
+   */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * 인증 미들웨어가 `req.user`를 설정한 요청
+ */
+type AuthenticatedRequest = Request & { user?: unknown };
+
+// 요청별 자식 컨테이너 저장소
+const requestContainers = new WeakMap<Request, ControllerContainer>();
+
+/**
+ * 요청마다 자식 컨테이너를 생성하는 미들웨어
+ *
+ * 자식 컨테이너에는 현재 Request, Response, 사용자(`req.user`), correlation id가 등록되며
+ * 응답이 끝나면 dispose되어 요청 스코프 서비스와 transient 인스턴스의 `@PreDestroy`가 실행됩니다
+ *
+ * @param container - 요청 컨테이너의 부모가 될 컨테이너
+ * @param options - 요청 스코프 옵션
+ * @returns Express 미들웨어
+ *
+ * @example
+ * ```typescript
+ * import { Container } from 'ts5deco-inject';
+ * import { requestScope, createRouter } from 'ts5deco-express-controller';
+ *
+ * const container = new Container();
+ * app.use(requestScope(container));
+ * app.use(createRouter([UserController], { container }));
+ * ```
+ */
+export function requestScope(container: ControllerContainer, options: RequestScopeOptions = {}): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    try {
+      createRequestContainer(container, req, res, options);
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * 요청에 연결된 자식 컨테이너를 가져옵니다
+ */
+export function getRequestContainer(req: Request): ControllerContainer | undefined {
+  return requestContainers.get(req);
+}
+
+/**
+ * 요청용 자식 컨테이너를 생성하고 요청에 연결합니다
+ *
+ * 이미 연결된 컨테이너가 있으면 그대로 반환합니다
+ */
+export function createRequestContainer(
+  container: ControllerContainer,
+  req: Request,
+  res: Response,
+  options: RequestScopeOptions = {}
+): ControllerContainer {
+  const existing = requestContainers.get(req);
+  if (existing) {
+    return existing;
+  }
+
+  const requestContainer = attachRequestContainer(container, req, res, options.onError);
+
+  const header = options.correlationIdHeader || 'x-correlation-id';
+  const seeds = [
+    { token: REQUEST_SCOPE_TOKENS.REQUEST, value: req },
+    { token: REQUEST_SCOPE_TOKENS.RESPONSE, value: res },
+    { token: REQUEST_SCOPE_TOKENS.USER, value: (req as AuthenticatedRequest).user },
+    { token: REQUEST_SCOPE_TOKENS.CORRELATION_ID, value: req.get(header) || randomUUID() },
+    ...(options.provide ? options.provide(req, res) : [])
+  ];
+
+  seeds.forEach(({ token, value }) => {
+    requestContainer.register({ type: 'value', token, useValue: value });
+  });
+
+  return requestContainer;
+}
+
+/**
+ * 요청에 연결된 자식 컨테이너를 가져오고, 없으면 값을 등록하지 않은 자식 컨테이너를 만듭니다
+ *
+ * requestScope 미들웨어가 없을 때 라우터가 사용하며, 요청마다 값을 등록하는 비용이 들지 않습니다
+ */
+export function getOrCreateRequestContainer(
+  container: ControllerContainer,
+  req: Request,
+  res: Response
+): ControllerContainer {
+  return requestContainers.get(req) ?? attachRequestContainer(container, req, res);
+}
+
+/**
+ * 요청용 자식 컨테이너를 만들어 요청에 연결하고, 응답이 끝나면 dispose합니다
+ */
+function attachRequestContainer(
+  container: ControllerContainer,
+  req: Request,
+  res: Response,
+  onError: (error: unknown) => void = error => console.error('Failed to dispose request container:', error)
+): ControllerContainer {
+  // 요청마다 생성된 transient 인스턴스도 응답이 끝나면 정리되도록 추적합니다
+  const requestContainer = container.createChild({ trackDisposables: true });
+  requestContainers.set(req, requestContainer);
+  disposeOnFinish(res, () => {
+    requestContainers.delete(req);
+    return requestContainer.dispose();
+  }, onError);
+  return requestContainer;
+}
+
+/**
+ * 응답이 끝나거나 연결이 닫히면 정리 함수를 한 번만 실행합니다
+ */
+function disposeOnFinish(res: Response, dispose: () => Promise<void>, onError: (error: unknown) => void): void {
+  let disposed = false;
+  const onDone = () => {
+    if (disposed) return;
+    disposed = true;
+    dispose().catch(onError);
+  };
+
+  res.once('finish', onDone);
+  res.once('close', onDone);
+}
@@ -1,13 +1,15 @@
 import { Router } from 'express';
 import { Request, Response, NextFunction } from 'express';
-import { ControllerConstructor } from './types';
+import { ControllerConstructor, RouterOptions } from './types';
 import { getControllerMetadata, getRouteMetadata } from './metadata';
 import { BaseResponse } from './responses/BaseResponse';
+import { getOrCreateRequestContainer } from './request-scope';
 
 /**
  * 컨트롤러에서 Express Router를 생성합니다
  * 
  * @param controllers - 등록할 컨트롤러 클래스들
+ * @param options - 컨트롤러 인스턴스 생성 옵션 (컨테이너 또는 resolver)
  * @returns Express Router 인스턴스
  * 
  * @example
@@ -17,13 +19,16 @@ import { BaseResponse } from './responses/BaseResponse';
  * 
  * const router = createRouter([UserController, PostController]);
  * app.use('/api', router);
+ *
+ * // ts5deco-inject 컨테이너에서 컨트롤러를 resolve
+ * const router = createRouter([UserController], { container });
  * ```
  */
-export function createRouter(controllers: ControllerConstructor[]): Router {
+export function createRouter(controllers: ControllerConstructor[], options: RouterOptions = {}): Router {
   const router = Router();
 
   controllers.forEach(ControllerClass => {
-    registerController(router, ControllerClass);
+    registerController(router, ControllerClass, options);
   });
 
   return router;
@@ -34,6 +39,7 @@ export function createRouter(controllers: ControllerConstructor[]): Router {
  * 
  * @param router - Express Router 인스턴스
  * @param ControllerClass - 등록할 컨트롤러 클래스
+ * @param options - 컨트롤러 인스턴스 생성 옵션 (컨테이너 또는 resolver)
  * 
  * @example
  * ```typescript
@@ -45,7 +51,11 @@ export function createRouter(controllers: ControllerConstructor[]): Router {
  * app.use('/api', router);
  * ```
  */
-export function registerController(router: Router, ControllerClass: ControllerConstructor): void {
+export function registerController(
+  router: Router,
+  ControllerClass: ControllerConstructor,
+  options: RouterOptions = {}
+): void {
   const controllerMetadata = getControllerMetadata(ControllerClass);
   const routeMetadata = getRouteMetadata(ControllerClass);
 
@@ -54,8 +64,8 @@ export function registerController(router: Router, ControllerClass: ControllerCo
     return;
   }
 
-  // 컨트롤러 인스턴스 생성
-  const controllerInstance = new ControllerClass();
+  // 컨트롤러 인스턴스 제공자 생성
+  const getControllerInstance = createInstanceProvider(ControllerClass, options);
 
   // 각 라우트에 대해 등록
   routeMetadata.forEach(route => {
@@ -63,7 +73,7 @@ export function registerController(router: Router, ControllerClass: ControllerCo
     const method = route.method.toLowerCase() as keyof Router;
     
     // 메서드 핸들러 생성
-    const handler = createMethodHandler(controllerInstance, route.propertyKey);
+    const handler = createMethodHandler(getControllerInstance, route.propertyKey);
     
     // 미들웨어 배열 생성 (컨트롤러 미들웨어 + 라우트 미들웨어 + 핸들러)
     const middlewares = [
@@ -79,12 +89,47 @@ export function registerController(router: Router, ControllerClass: ControllerCo
   });
 }
 
+/**
+ * 요청마다 컨트롤러 인스턴스를 반환하는 함수를 생성합니다
+ *
+ * - resolver가 있으면 요청마다 resolver를 호출
+ * - container가 있으면 요청 컨테이너(requestScope 미들웨어가 만든 것 또는 값 등록 없이 새로 만든 것)에서 resolve
+ *   (스코프는 컨테이너 등록 또는 @Injectable 메타데이터를 따름)
+ * - 둘 다 없으면 인스턴스를 한 번만 생성
+ */
+function createInstanceProvider(
+  ControllerClass: ControllerConstructor,
+  options: RouterOptions
+): (req: Request, res: Response) => any {
+  const { resolver, container } = options;
+
+  if (resolver) {
+    return (req) => resolver(ControllerClass, req);
+  }
+
+  if (container) {
+    if (!container.has(ControllerClass)) {
+      container.register({ type: 'class', token: ControllerClass, useClass: ControllerClass });
+    }
+
+    return (req, res) => getOrCreateRequestContainer(container, req, res).resolve(ControllerClass);
+  }
+
+  const controllerInstance = new ControllerClass();
+  return () => controllerInstance;
+}
+
 /**
  * 메서드 핸들러를 생성합니다 - Request, Response, NextFunction을 직접 전달
  */
-function createMethodHandler(controllerInstance: any, propertyKey: string | symbol) {
+function createMethodHandler(
+  getControllerInstance: (req: Request, res: Response) => any,
+  propertyKey: string | symbol
+) {
   return async (req: Request, res: Response, next: NextFunction) => {
     try {
+      const controllerInstance = getControllerInstance(req, res);
+
       // 메서드 실행 - req, res, next를 직접 전달
       const result = await controllerInstance[propertyKey](req, res, next);
 
@@ -123,6 +168,7 @@ function combinePaths(basePath: string, routePath: string): string {
  * @param app - Express 앱 인스턴스
  * @param controllers - 등록할 컨트롤러 클래스들
  * @param basePath - 기본 경로 (기본값: '')
+ * @param options - 컨트롤러 인스턴스 생성 옵션 (컨테이너 또는 resolver)
  * 
  * @example
  * ```typescript
@@ -137,8 +183,9 @@ function combinePaths(basePath: string, routePath: string): string {
 export function registerControllers(
   app: any, 
   controllers: ControllerConstructor[], 
-  basePath: string = ''
+  basePath: string = '',
+  options: RouterOptions = {}
 ): void {
-  const router = createRouter(controllers);
+  const router = createRouter(controllers, options);
   app.use(basePath, router);
 }
@@ -38,3 +38,49 @@ export interface RouteMetadata {
  * 컨트롤러 생성자 타입
  */
 export type ControllerConstructor = new (...args: any[]) => any;
+
+/**
+ * 자식 컨테이너 생성 옵션
+ */
+export interface ChildContainerOptions {
+  /**
+   * 자식 컨테이너가 만든 transient 인스턴스를 추적해 dispose 시 함께 정리할지 여부
+   */
+  trackDisposables?: boolean;
+}
+
+/**
+ * 컨트롤러 인스턴스를 제공하는 DI 컨테이너의 최소 인터페이스
+ *
+ * ts5deco-inject의 `IContainer`가 이 구조를 그대로 만족합니다
+ */
+export interface ControllerContainer {
+  has(token: ControllerConstructor): boolean;
+  register(
+    provider:
+      | { type: 'class'; token: ControllerConstructor; useClass: ControllerConstructor }
+      | { type: 'value'; token: string; useValue: unknown }
+  ): unknown;
+  resolve<T>(token: new (...args: any[]) => T): T;
+  createChild(options?: ChildContainerOptions): ControllerContainer;
+  dispose(): Promise<void>;
+}
+
+/**
+ * 요청마다 컨트롤러 인스턴스를 반환하는 함수 타입
+ */
+export type ControllerResolver = <T>(ControllerClass: new (...args: any[]) => T, req: Request) => T;
+
+/**
+ * 라우터 생성 옵션
+ */
+export interface RouterOptions {
+  /**
+   * 컨트롤러를 resolve할 컨테이너 - requestScope 미들웨어가 없으면 요청마다 자식 컨테이너를 만들어 사용합니다
+   */
+  container?: ControllerContainer;
+  /**
+   * 컨트롤러 인스턴스를 직접 반환하는 함수 (container보다 우선)
+   */
+  resolver?: ControllerResolver;
+}
@@ -0,0 +1,88 @@
+import express, { Request } from 'express';
+import request from 'supertest';
+import { Container, Injectable, PreDestroy } from 'ts5deco-inject';
+import { Controller } from '../src/decorators/controller';
+import { Get } from '../src/decorators/route';
+import { createRouter } from '../src/router';
+import { requestScope } from '../src/request-scope';
+
+// 실제 ts5deco-inject 컨테이너와의 통합 테스트
+describe('ts5deco-inject Container integration', () => {
+  let app: express.Application;
+  let container: Container;
+  let created: string[];
+  let destroyed: string[];
+
+  @Controller('/singleton')
+  class SingletonController {
+    constructor() {
+      created.push('singleton');
+    }
+
+    @Get('/')
+    get() {
+      return { count: created.length };
+    }
+  }
+
+  @Injectable({ scope: 'request' })
+  @Controller('/request')
+  class RequestController {
+    readonly id = created.push('request');
+
+    @Get('/')
+    get(req: Request) {
+      return { id: this.id, path: req.path };
+    }
+
+    @PreDestroy
+    close() {
+      destroyed.push(`request ${this.id}`);
+    }
+  }
+
+  beforeEach(() => {
+    app = express();
+    container = new Container();
+    created = [];
+    destroyed = [];
+    // 메서드 메타데이터는 인스턴스 생성 시 기록됩니다
+    new SingletonController();
+    new RequestController();
+    created = [];
+  });
+
+  afterEach(async () => {
+    await container.dispose();
+  });
+
+  // 응답이 끝난 뒤 실행되는 dispose를 기다립니다
+  const flush = () => new Promise(resolve => setImmediate(resolve));
+
+  it('should share singleton controllers across requests', async () => {
+    app.use(createRouter([SingletonController], { container }));
+
+    await request(app).get('/singleton').expect(200);
+    await request(app).get('/singleton').expect(200);
+
+    expect(created).toEqual(['singleton']);
+    expect(container.resolve(SingletonController)).toBeInstanceOf(SingletonController);
+    expect(created).toEqual(['singleton']);
+  });
+
+  it('should create request-scoped controllers per request and run @PreDestroy on finish', async () => {
+    app.use(requestScope(container));
+    app.use(createRouter([RequestController], { container }));
+
+    const first = await request(app).get('/request').expect(200);
+    await flush();
+    expect(destroyed).toEqual([`request ${first.body.id}`]);
+
+    const second = await request(app).get('/request').expect(200);
+    await flush();
+
+    expect(second.body.id).not.toBe(first.body.id);
+    expect(created).toEqual(['request', 'request']);
+    expect(destroyed).toEqual([`request ${first.body.id}`, `request ${second.body.id}`]);
+  });
+});
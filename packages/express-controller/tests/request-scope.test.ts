@@ -0,0 +1,123 @@
+import express, { Request, Response } from 'express';
+import request from 'supertest';
+import { Controller } from '../src/decorators/controller';
+import { Get } from '../src/decorators/route';
+import { createRouter } from '../src/router';
+import { requestScope, getRequestContainer, REQUEST_SCOPE_TOKENS } from '../src/request-scope';
+import { TestContainer } from './test-container';
+
+// 요청 컨테이너에 등록된 값을 그대로 돌려주는 컨트롤러
+@Controller('/scope')
+class ScopeController {
+  constructor(private readonly requestContainer: TestContainer) {}
+
+  @Get('/')
+  getScope(req: Request) {
+    const values = this.requestContainer.values;
+    return {
+      sameRequest: values.get(REQUEST_SCOPE_TOKENS.REQUEST) === req,
+      sameContainer: getRequestContainer(req) === this.requestContainer,
+      user: values.get(REQUEST_SCOPE_TOKENS.USER),
+      correlationId: values.get(REQUEST_SCOPE_TOKENS.CORRELATION_ID),
+      tenant: values.get('tenant')
+    };
+  }
+}
+
+describe('requestScope', () => {
+  let app: express.Application;
+  let container: TestContainer;
+
+  beforeEach(() => {
+    app = express();
+    container = new TestContainer(new Set([ScopeController]));
+    new ScopeController(container);
+  });
+
+  it('should seed the request container with request, user and correlation id', async () => {
+    app.use((req: Request, res: Response, next) => {
+      (req as any).user = { id: 7 };
+      next();
+    });
+    app.use(requestScope(container));
+    app.use(createRouter([ScopeController], { container }));
+
+    const response = await request(app)
+      .get('/scope')
+      .set('x-correlation-id', 'abc-123')
+      .expect(200);
+
+    expect(response.body).toEqual({
+      sameRequest: true,
+      sameContainer: true,
+      user: { id: 7 },
+      correlationId: 'abc-123'
+    });
+  });
+
+  it('should generate a correlation id and accept custom seeds', async () => {
+    app.use(requestScope(container, {
+      correlationIdHeader: 'x-request-id',
+      provide: req => [{ token: 'tenant', value: req.query['tenant'] }]
+    }));
+    app.use(createRouter([ScopeController], { container }));
+
+    const response = await request(app)
+      .get('/scope?tenant=acme')
+      .expect(200);
+
+    expect(response.body.tenant).toBe('acme');
+    expect(typeof response.body.correlationId).toBe('string');
+    expect(response.body.correlationId).not.toHaveLength(0);
+  });
+
+  it('should dispose the request container once the response finishes', async () => {
+    app.use(requestScope(container));
+    app.use(createRouter([ScopeController], { container }));
+
+    await request(app).get('/scope').expect(200);
+    await request(app).get('/scope').expect(200);
+
+    expect(container.disposedCount).toBe(2);
+  });
+
+  it('should pass disposal failures to onError', async () => {
+    const errors: unknown[] = [];
+    container.disposeError = new Error('dispose failed');
+    app.use(requestScope(container, { onError: error => errors.push(error) }));
+    app.use(createRouter([ScopeController], { container }));
+
+    await request(app).get('/scope').expect(200);
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(errors).toEqual([container.disposeError]);
+  });
+
+  it('should not seed request containers created without the middleware', async () => {
+    app.use(createRouter([ScopeController], { container }));
+
+    const response = await request(app).get('/scope').expect(200);
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(response.body).toEqual({ sameRequest: false, sameContainer: true });
+    expect(container.disposedCount).toBe(1);
+  });
+
+  it('should dispose transient instances created for the request', async () => {
+    const requestContainers: TestContainer[] = [];
+    app.use(requestScope(container));
+    app.use((req: Request, res: Response, next) => {
+      requestContainers.push(getRequestContainer(req) as TestContainer);
+      next();
+    });
+    app.use(createRouter([ScopeController], { container }));
+
+    await request(app).get('/scope').expect(200);
+    await new Promise(resolve => setImmediate(resolve));
+
+    const controllers = requestContainers[0]!.tracked;
+    expect(controllers).toHaveLength(1);
+    expect(controllers[0]).toBeInstanceOf(ScopeController);
+    expect(container.disposedInstances).toEqual(controllers);
+  });
+});
@@ -4,6 +4,7 @@ import { Controller } from '../src/decorators/controller';
 import { Get, Post, Put, Delete, All } from '../src/decorators/route';
 import { createRouter, registerController, registerControllers } from '../src/router';
 import { JsonResponse } from '../src/responses/JsonResponse';
+import { TestContainer } from './test-container';
 
 // 테스트용 컨트롤러들
 @Controller('/api/users')
@@ -447,4 +448,63 @@ describe('Router', () => {
       expect(response.body).toEqual({ message: 'edge case users' });
     });
   });
-});
\ No newline at end of file
+
+  describe('DI container integration', () => {
+    @Controller('/api/counter')
+    class CounterController {
+      private count = 0;
+
+      @Get('/')
+      increment() {
+        return { count: ++this.count };
+      }
+    }
+
+    beforeEach(() => {
+      new CounterController();
+    });
+
+    it('should register and resolve controllers from the container', async () => {
+      const container = new TestContainer();
+      app.use(createRouter([CounterController], { container }));
+
+      expect(container.has(CounterController)).toBe(true);
+
+      await request(app).get('/api/counter').expect(200, { count: 1 });
+      await request(app).get('/api/counter').expect(200, { count: 2 });
+    });
+
+    it('should create transient controllers per request and dispose the request container', async () => {
+      const container = new TestContainer(new Set([CounterController]));
+      app.use(createRouter([CounterController], { container }));
+
+      await request(app).get('/api/counter').expect(200, { count: 1 });
+      await request(app).get('/api/counter').expect(200, { count: 1 });
+
+      expect(container.disposedCount).toBe(2);
+    });
+
+    it('should not re-register controllers the container already knows', async () => {
+      const container = new TestContainer();
+      const registerSpy = jest.spyOn(container, 'register');
+      container.register({ token: CounterController });
+      registerSpy.mockClear();
+
+      registerControllers(app, [CounterController], '', { container });
+
+      expect(registerSpy).not.toHaveBeenCalled();
+    });
+
+    it('should use the resolver function for every request', async () => {
+      const instance = new CounterController();
+      const resolver = jest.fn().mockReturnValue(instance);
+      app.use(createRouter([CounterController], { resolver }));
+
+      await request(app).get('/api/counter').expect(200, { count: 1 });
+      await request(app).get('/api/counter').expect(200, { count: 2 });
+
+      expect(resolver).toHaveBeenCalledTimes(2);
+      expect(resolver.mock.calls[0]?.[0]).toBe(CounterController);
+    });
+  });
+});
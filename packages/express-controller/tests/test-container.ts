@@ -0,0 +1,54 @@
+import { ChildContainerOptions, ControllerConstructor, ControllerContainer } from '../src/types';
+
+/**
+ * 테스트용 최소 DI 컨테이너 - transient로 지정된 클래스는 매번 새로 생성
+ */
+export class TestContainer implements ControllerContainer {
+  readonly registered = new Set<unknown>();
+  readonly singletons = new Map<ControllerConstructor, any>();
+  readonly values = new Map<string, unknown>();
+  readonly tracked: unknown[] = [];
+  readonly disposedInstances: unknown[] = [];
+  disposedCount = 0;
+  disposeError: Error | undefined;
+
+  constructor(
+    private readonly transient = new Set<ControllerConstructor>(),
+    private readonly parent?: TestContainer,
+    private readonly options: ChildContainerOptions = {}
+  ) {}
+
+  has(token: unknown): boolean {
+    return this.registered.has(token) || (this.parent?.has(token) ?? false);
+  }
+
+  register(provider: { token: any; useValue?: unknown }) {
+    this.registered.add(provider.token);
+    if (typeof provider.token === 'string') {
+      this.values.set(provider.token, provider.useValue);
+    }
+    return this;
+  }
+
+  resolve<T>(token: new (...args: any[]) => T): T {
+    if (this.transient.has(token)) {
+      const instance = new token(this);
+      if (this.options.trackDisposables) this.tracked.push(instance);
+      return instance;
+    }
+    if (this.parent) return this.parent.resolve(token);
+    if (!this.singletons.has(token)) this.singletons.set(token, new token(this));
+    return this.singletons.get(token);
+  }
+
+  createChild(options: ChildContainerOptions = {}): TestContainer {
+    return new TestContainer(this.transient, this, options);
+  }
+
+  async dispose(): Promise<void> {
+    const root = this.parent ?? this;
+    root.disposedCount++;
+    root.disposedInstances.push(...this.tracked);
+    if (root.disposeError) throw root.disposeError;
+  }
+}
@@ -7,14 +7,28 @@ import {
   FactoryProvider,
   IContainer,
   ServiceOptions,
+  InjectionConstraints,
+  BindingRequest,
+  BindingCondition,
   ContainerOptions,
+  CaptiveDependencyMode,
   ServiceRegistration,
   ResolutionContext,
   ServiceInstance,
+  ContainerEvent,
+  ContainerEventData,
+  ContainerEventListener,
+  ContainerSnapshot,
+  InferServiceType,
+  getTokenName,
   ContainerError,
   CircularDependencyError,
   ServiceNotFoundError,
   InvalidProviderError,
+  AsyncProviderError,
+  CaptiveDependencyError,
+  DisposalTimeoutError,
+  RequestScopeError,
   isClassProvider,
   isValueProvider,
   isFactoryProvider,
@@ -25,25 +39,74 @@ import {
   IBindingFinalized
 } from '../types';
 
+import {
+  IAsyncContainer,
+  ITypedContainer,
+  TypedFactory,
+  TypedServiceRegistration,
+  ModuleClass,
+  DependencyGraph,
+  ValidationReport,
+  BootstrapReport,
+  BootstrapServiceReport,
+  ContainerStats,
+  StatsReporter,
+  StatsReporterOptions,
+  IInterceptor,
+  InterceptorPredicate
+} from '../types/advanced';
+
+import { ModuleLoader, exposeToken, delegatingProviders, moduleContainers, moduleExportProviders } from './ModuleLoader';
+import { getMethodNames, interceptMethods } from './interceptors';
+import { createLazyProxy } from './lazy';
+import { getDisposeSymbol } from './disposable';
+import { StatsCollector } from './stats';
+import {
+  buildDependencyGraph,
+  validateDependencyGraph,
+  getConstructorDependencies,
+  getProviderDependencies,
+  isShorterLived
+} from './graph';
+
 import {
   getClassMetadata,
   getPropertyMetadata,
   getAllPropertyMetadata,
   getMethodMetadata,
-  getAllMethodMetadata
+  getAllMethodMetadata,
+  getRegisteredInjectables,
+  InjectableFilter,
+  PropertyMetadata
 } from '../metadata';
 
-import { DEFAULT_CONTAINER_OPTIONS } from '../types/constants';
+import { DEFAULT_CONTAINER_OPTIONS, FEATURE_FLAGS, PERFORMANCE_CONSTANTS } from '../types/constants';
 
 /**
  * Core IoC Container implementation
  */
-export class Container implements IContainer {
+export class Container implements IContainer, IAsyncContainer, ITypedContainer {
   private readonly registrations = new Map<ServiceIdentifier, ServiceRegistration>();
   private readonly instances = new Map<ServiceIdentifier, ServiceInstance>();
+  private readonly multiRegistrations = new Map<ServiceIdentifier, ServiceRegistration[]>();
+  private readonly contextualRegistrations = new Map<ServiceIdentifier, ServiceRegistration[]>();
+  private readonly registrationInstances = new Map<ServiceRegistration, ServiceInstance>();
+  private readonly trackedInstances: Array<{ registration: ServiceRegistration; instance: ServiceInstance }> = [];
+  private readonly pendingDisposals = new Set<Promise<void>>();
+  private readonly disposalErrors: unknown[] = [];
+  private readonly stats = new StatsCollector(FEATURE_FLAGS.ENABLE_PERFORMANCE_MONITORING);
+  private readonly statsReporters = new Set<ReturnType<typeof setInterval>>();
+  private readonly reportedCaptives = new Map<ServiceIdentifier, Set<ServiceIdentifier>>();
+  private readonly pending = new Map<ServiceIdentifier, Promise<any>>();
   private readonly children = new Set<Container>();
+  private readonly listeners = new Map<string, Set<ContainerEventListener>>();
+  private readonly interceptors: Array<{
+    predicate: InterceptorPredicate;
+    interceptor: ServiceIdentifier<IInterceptor> | IInterceptor;
+  }> = [];
   private readonly options: ContainerOptions;
   private readonly parent: Container | undefined;
+  private moduleLoader: ModuleLoader | undefined;
   private disposed = false;
 
   constructor(options: Partial<ContainerOptions> = {}, parent?: Container) {
@@ -72,13 +135,18 @@ export class Container implements IContainer {
       token: provider.token,
       provider,
       options: {
-        scope: options.scope || (provider as any).scope || this.options.defaultScope || ServiceScope.SINGLETON,
+        scope: options.scope || (provider as any).scope || this.getDeclaredScope(provider) || this.options.defaultScope || ServiceScope.SINGLETON,
+        ...(options.ttl !== undefined && { ttl: options.ttl }),
         lazy: options.lazy ?? true,
         tags: options.tags || [],
+        ...(options.multi && { multi: true }),
+        ...(options.name !== undefined && { name: options.name }),
+        ...(options.tagged && { tagged: options.tagged }),
+        ...(options.when && { when: options.when }),
         ...(options.onActivation && { onActivation: options.onActivation }),
         ...(options.onDeactivation && { onDeactivation: options.onDeactivation })
       },
-      dependencies: this.extractDependencies(provider),
+      dependencies: getProviderDependencies(provider),
       metadata: (() => {
         const location = this.getSourceLocation();
         return {
@@ -88,7 +156,13 @@ export class Container implements IContainer {
       })()
     };
 
-    this.registrations.set(provider.token, registration);
+    this.checkRegistrationScopes(registration);
+    this.storeRegistration(registration);
+    this.emit(ContainerEvent.SERVICE_REGISTERED, { token: provider.token });
+
+    if (isClassProvider(provider)) {
+      this.registerDeclaredProviders(provider.useClass);
+    }
     
     // Auto-bind injectable classes if enabled
     if (this.options.autoBindInjectable && isClassProvider(provider)) {
@@ -98,6 +172,46 @@ export class Container implements IContainer {
     return this;
   }
 
+  /**
+   * Register an async factory, resolvable only through resolveAsync()
+   * until its first instance has been created
+   */
+  registerAsync<T>(token: ServiceIdentifier<T>, factory: () => Promise<T>, options: ServiceOptions = {}): this {
+    return this.register({
+      type: 'factory',
+      token,
+      useFactory: factory,
+      async: true
+    }, options);
+  }
+
+  /**
+   * Register a provider whose token and implementation are checked
+   * against the same service type
+   */
+  registerTyped<T>(registration: TypedServiceRegistration<T>): this {
+    return this.register<T>(registration);
+  }
+
+  /**
+   * Register a factory whose parameters are inferred from the tuple of
+   * dependency tokens
+   */
+  registerFactory<T, const TDeps extends readonly ServiceIdentifier[]>(
+    token: ServiceIdentifier<T>,
+    factory: TypedFactory<T, TDeps>,
+    deps: TDeps,
+    scope?: ServiceScope
+  ): this {
+    return this.register<T>({
+      type: 'factory',
+      token,
+      useFactory: factory as (...deps: any[]) => T,
+      deps: [...deps],
+      ...(scope && { scope })
+    });
+  }
+
   /**
    * Create a fluent binding builder
    */
@@ -108,7 +222,9 @@ export class Container implements IContainer {
   /**
    * Resolve a service instance
    */
-  resolve<T>(token: ServiceIdentifier<T>): T {
+  resolve<K extends ServiceIdentifier>(token: K): InferServiceType<K>;
+  resolve<T>(token: ServiceIdentifier<T>): T;
+  resolve(token: ServiceIdentifier): any {
     this.throwIfDisposed();
     
     const context: ResolutionContext = {
@@ -118,7 +234,80 @@ export class Container implements IContainer {
       isOptional: false
     };
 
-    return this.resolveWithContext<T>(token, context);
+    return this.resolveWithContext(token, context);
+  }
+
+  /**
+   * Resolve a service, awaiting async factories and async @PostConstruct
+   * methods across the whole dependency graph
+   */
+  async resolveAsync<T>(token: ServiceIdentifier<T>): Promise<T> {
+    this.throwIfDisposed();
+
+    const context: ResolutionContext = {
+      container: this,
+      resolutionStack: [],
+      cache: new Map(),
+      isOptional: false
+    };
+
+    return this.resolveAsyncWithContext<T>(token, context);
+  }
+
+  /**
+   * Resolve every provider registered with `multi: true`, in registration
+   * order from the root container down to this one. A token with a single
+   * regular registration resolves to a one-element array.
+   */
+  resolveAll<T>(token: ServiceIdentifier<T>): T[] {
+    this.throwIfDisposed();
+
+    const context: ResolutionContext = {
+      container: this,
+      resolutionStack: [],
+      cache: new Map(),
+      isOptional: false
+    };
+
+    return this.resolveAllWithContext<T>(token, context);
+  }
+
+  /**
+   * Resolve every service visible from this container that carries a tag,
+   * either in its `tags` or as a key of its contextual `tagged` constraints
+   */
+  resolveByTag<T = unknown>(tag: string): T[] {
+    this.throwIfDisposed();
+
+    const context: ResolutionContext = {
+      container: this,
+      resolutionStack: [],
+      cache: new Map(),
+      isOptional: false
+    };
+
+    return this.collectBindings()
+      .filter(({ registration }) =>
+        registration.options.tags?.includes(tag) ||
+        (registration.options.tagged !== undefined && tag in registration.options.tagged)
+      )
+      .map(({ owner, registration }) =>
+        owner.registrations.get(registration.token) === registration
+          ? this.resolveWithContext<T>(registration.token, context)
+          : this.resolveRegistrationWithContext<T>(owner, registration, context)
+      );
+  }
+
+  /**
+   * Return a transparent proxy that resolves the service on first member access
+   */
+  resolveLazy<T extends object>(token: ServiceIdentifier<T>): T {
+    this.throwIfDisposed();
+
+    if (!FEATURE_FLAGS.ENABLE_LAZY_LOADING) {
+      return this.resolve(token);
+    }
+    return createLazyProxy(token, this, () => this.resolve(token));
   }
 
   /**
@@ -135,11 +324,18 @@ export class Container implements IContainer {
     }
   }
 
+  /**
+   * Resolve a service whose type is fixed by its token
+   */
+  resolveTyped<T>(token: ServiceIdentifier<T>): T {
+    return this.resolve<T>(token);
+  }
+
   /**
    * Check if a service is registered
    */
   has(token: ServiceIdentifier): boolean {
-    return this.registrations.has(token) || (this.parent?.has(token) ?? false);
+    return this.isBound(token, false);
   }
 
   /**
@@ -147,14 +343,22 @@ export class Container implements IContainer {
    */
   unbind(token: ServiceIdentifier): boolean {
     this.throwIfDisposed();
-    
-    const instance = this.instances.get(token);
-    if (instance) {
-      this.disposeInstance(instance, token);
-      this.instances.delete(token);
-    }
-    
-    return this.registrations.delete(token);
+
+    const { removed, entries } = this.removeBindings(token);
+    entries.forEach(({ instance, token, registration }) => this.disposeInstance(instance, token, registration));
+    return removed;
+  }
+
+  /**
+   * Unbind a service, awaiting its async cleanup hooks; failures are
+   * rethrown together as an AggregateError once every hook has run
+   */
+  async unbindAsync(token: ServiceIdentifier): Promise<boolean> {
+    this.throwIfDisposed();
+
+    const { removed, entries } = this.removeBindings(token);
+    await this.disposeEntries(entries);
+    return removed;
   }
 
   /**
@@ -165,6 +369,14 @@ export class Container implements IContainer {
     return new Container(options, this);
   }
 
+  /**
+   * Create a child container that tracks and disposes every instance it
+   * creates that needs cleanup, for `await using scope = container.createScope()`
+   */
+  createScope(options: Partial<ContainerOptions> = {}): IContainer {
+    return this.createChild({ trackDisposables: true, ...options });
+  }
+
   /**
    * Get the parent container
    */
@@ -176,7 +388,11 @@ export class Container implements IContainer {
    * Get all registered service tokens
    */
   getServices(): ServiceIdentifier[] {
-    const tokens = Array.from(this.registrations.keys());
+    const tokens = [
+      ...this.registrations.keys(),
+      ...this.multiRegistrations.keys(),
+      ...this.contextualRegistrations.keys()
+    ];
     if (this.parent) {
       tokens.push(...this.parent.getServices());
     }
@@ -188,50 +404,382 @@ export class Container implements IContainer {
    */
   clear(): void {
     this.throwIfDisposed();
-    
-    // Dispose all instances
+
+    this.clearBindings().forEach(({ instance, token, registration }) => this.disposeInstance(instance, token, registration));
+  }
+
+  /**
+   * Clear all registrations, awaiting the async cleanup hooks of their
+   * instances in disposal order
+   */
+  async clearAsync(): Promise<void> {
+    this.throwIfDisposed();
+
+    await this.disposeEntries(this.clearBindings());
+  }
+
+  /**
+   * Load a module and its imports into isolated child containers.
+   * Tokens exported by the module become resolvable from this container.
+   */
+  loadModule(moduleClass: ModuleClass): IContainer {
+    this.throwIfDisposed();
+
+    this.moduleLoader ??= new ModuleLoader(this);
+    const moduleContainer = this.moduleLoader.load(moduleClass);
+
+    for (const token of this.moduleLoader.getExports(moduleClass)) {
+      moduleExportProviders.add(exposeToken(this, moduleContainer, token));
+    }
+
+    return moduleContainer;
+  }
+
+  /**
+   * Register the classes recorded by `@Injectable({ discoverable: true })`.
+   * Tokens this container already registers are left alone, so explicit
+   * registrations take precedence over discovered ones.
+   */
+  scan(filter?: InjectableFilter): this {
+    this.throwIfDisposed();
+
+    for (const entry of getRegisteredInjectables(filter)) {
+      if (this.registrations.has(entry.token)) continue;
+
+      this.register(
+        { type: 'class', token: entry.token, useClass: entry.target },
+        { scope: entry.scope as ServiceScope, tags: entry.tags }
+      );
+    }
+
+    return this;
+  }
+
+  /**
+   * Build the dependency graph of every registration visible from this
+   * container, including parents, without instantiating anything
+   */
+  getDependencyGraph(): DependencyGraph {
+    this.throwIfDisposed();
+    return buildDependencyGraph(this.collectRegistrations());
+  }
+
+  /**
+   * Validate all registrations, reporting missing tokens, cycles,
+   * scope violations and excessive resolution depth
+   */
+  validate(): ValidationReport {
+    return validateDependencyGraph(this.getDependencyGraph());
+  }
+
+  /**
+   * Instantiate every singleton of this container registered with `lazy: false`,
+   * dependencies first, awaiting async factories and @PostConstruct methods.
+   * Failures are collected in the report instead of stopping at the first one.
+   */
+  async bootstrap(): Promise<BootstrapReport> {
+    this.throwIfDisposed();
+
+    const startedAt = performance.now();
+    const graph = this.getDependencyGraph();
+
+    // Leaves first, so each timing covers a single service rather than its dependencies
+    const eager = [
+      ...this.registrations.values(),
+      ...Array.from(this.multiRegistrations.values()).flat(),
+      ...Array.from(this.contextualRegistrations.values()).flat()
+    ]
+      .filter(registration =>
+        registration.options.lazy === false &&
+        (registration.options.scope || ServiceScope.SINGLETON) === ServiceScope.SINGLETON
+      )
+      .sort((a, b) => (graph.get(a.token)?.depth ?? 0) - (graph.get(b.token)?.depth ?? 0));
+
+    const services: BootstrapServiceReport[] = [];
+    for (const registration of eager) {
+      const { token } = registration;
+      const start = performance.now();
+      try {
+        if (this.registrations.get(token) === registration) {
+          await this.resolveAsync(token);
+        } else {
+          await this.resolveRegistrationAsyncWithContext(this, registration, {
+            container: this,
+            resolutionStack: [],
+            cache: new Map(),
+            isOptional: false
+          });
+        }
+        services.push({ token, name: getTokenName(token), status: 'created', durationMs: performance.now() - start });
+      } catch (error) {
+        services.push({ token, name: getTokenName(token), status: 'failed', durationMs: performance.now() - start, error });
+      }
+    }
+
+    const errors = services.filter(service => service.status === 'failed').map(service => service.error);
+    return {
+      success: errors.length === 0,
+      durationMs: performance.now() - startedAt,
+      services,
+      ...(errors.length > 0 && {
+        error: new AggregateError(errors, `${errors.length} of ${services.length} services failed to start`)
+      })
+    };
+  }
+
+  /**
+   * Capture the current registrations and cached instances
+   */
+  snapshot(): ContainerSnapshot {
+    this.throwIfDisposed();
+
+    const registrations = [
+      ...this.registrations.values(),
+      ...Array.from(this.multiRegistrations.values()).flat(),
+      ...Array.from(this.contextualRegistrations.values()).flat()
+    ];
+    const instances = new Map(
+      Array.from(this.instances, ([token, instance]) => [token, { ...instance }] as const)
+    );
+    const registrationInstances = new Map(
+      Array.from(this.registrationInstances, ([registration, instance]) => [registration, { ...instance }] as const)
+    );
+    const childContainers = Array.from(this.children);
+    const options = { ...this.options };
+    const createdAt = new Date();
+
+    return {
+      registrations,
+      instances,
+      registrationInstances,
+      childContainers,
+      options,
+      createdAt,
+      toJSON: () => ({
+        createdAt: createdAt.toISOString(),
+        options,
+        registrations: registrations.map(registration => ({
+          token: getTokenName(registration.token),
+          type: registration.provider.type,
+          ...(registration.options.scope && { scope: registration.options.scope }),
+          tags: registration.options.tags || [],
+          registeredAt: registration.metadata.registeredAt.toISOString(),
+          ...(registration.metadata.sourceLocation && { sourceLocation: registration.metadata.sourceLocation })
+        })),
+        instances: Array.from(instances, ([token, instance]) => ({
+          token: getTokenName(token),
+          scope: instance.scope,
+          createdAt: instance.createdAt.toISOString(),
+          accessCount: instance.accessCount,
+          disposed: instance.disposed
+        })),
+        childContainers: childContainers.length
+      })
+    };
+  }
+
+  /**
+   * Restore registrations and cached instances captured by snapshot().
+   * Instances created after the snapshot are disposed.
+   */
+  restore(snapshot: ContainerSnapshot): void {
+    this.throwIfDisposed();
+
+    const snapshotRegistrationInstances = snapshot.registrationInstances || new Map<ServiceRegistration, ServiceInstance>();
+    const retained = new Set(
+      [...snapshot.instances.values(), ...snapshotRegistrationInstances.values()].map(instance => instance.instance)
+    );
     for (const [token, instance] of this.instances) {
-      this.disposeInstance(instance, token);
+      if (!retained.has(instance.instance)) {
+        this.disposeInstance(instance, token);
+      }
     }
-    
-    this.instances.clear();
+    for (const [registration, instance] of this.registrationInstances) {
+      if (!retained.has(instance.instance)) {
+        this.disposeInstance(instance, registration.token, registration);
+      }
+    }
+
     this.registrations.clear();
+    this.multiRegistrations.clear();
+    this.contextualRegistrations.clear();
+    snapshot.registrations.forEach(registration => this.storeRegistration(registration));
+
+    this.instances.clear();
+    for (const [token, instance] of snapshot.instances) {
+      this.instances.set(token, { ...instance });
+    }
+
+    this.registrationInstances.clear();
+    for (const [registration, instance] of snapshotRegistrationInstances) {
+      this.registrationInstances.set(registration, { ...instance });
+    }
+  }
+
+  /**
+   * Intercept every method of the services matching the predicate. Applies to
+   * instances created afterwards by this container and its children.
+   */
+  addInterceptor(predicate: InterceptorPredicate, interceptor: ServiceIdentifier<IInterceptor> | IInterceptor): this {
+    this.throwIfDisposed();
+    this.interceptors.push({ predicate, interceptor });
+    return this;
+  }
+
+  /**
+   * Resolution counts, creation times and cache efficiency of the services
+   * this container created or served from its cache. Singletons are counted
+   * by the container holding their registration.
+   */
+  getStats(): ContainerStats {
+    const registrations = this.registrations.size +
+      Array.from(this.multiRegistrations.values()).reduce((sum, list) => sum + list.length, 0) +
+      Array.from(this.contextualRegistrations.values()).reduce((sum, list) => sum + list.length, 0);
+    return this.stats.collect(registrations, this.instances.size + this.registrationInstances.size);
+  }
+
+  /**
+   * Pass getStats() to the reporter every interval until the returned
+   * function is called or the container is disposed. The timer does not
+   * keep the process alive, and reporter failures go to onError.
+   */
+  startStatsReporter(reporter: StatsReporter, options: StatsReporterOptions = {}): () => void {
+    this.throwIfDisposed();
+
+    const {
+      intervalMs = PERFORMANCE_CONSTANTS.STATS_COLLECTION_INTERVAL_MS,
+      onError = (error: unknown) => console.error(error)
+    } = options;
+
+    const report = () => {
+      try {
+        const result = reporter(this.getStats());
+        if (isThenable(result)) {
+          result.then(undefined, onError);
+        }
+      } catch (error) {
+        onError(error);
+      }
+    };
+
+    const timer = setInterval(report, intervalMs);
+    timer.unref?.();
+    this.statsReporters.add(timer);
+
+    return () => {
+      clearInterval(timer);
+      this.statsReporters.delete(timer);
+    };
+  }
+
+  /**
+   * Add an event listener; events from child containers propagate here
+   */
+  on(event: ContainerEvent | `${ContainerEvent}`, listener: ContainerEventListener): this {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener);
+    return this;
+  }
+
+  /**
+   * Remove an event listener
+   */
+  off(event: ContainerEvent | `${ContainerEvent}`, listener: ContainerEventListener): this {
+    this.listeners.get(event)?.delete(listener);
+    return this;
   }
 
   /**
-   * Dispose the container and all singleton instances
+   * Dispose the container, its children and all cached instances.
+   * Dependents are disposed before their dependencies, and async @PreDestroy
+   * methods and onDeactivation hooks are awaited, each bounded by the
+   * disposeTimeout option. A failing hook does not stop the remaining ones;
+   * all failures are rethrown together as an AggregateError.
    */
   async dispose(): Promise<void> {
     if (this.disposed) return;
     
     this.disposed = true;
+    const errors: unknown[] = [];
     
-    // Dispose all child containers first
-    for (const child of this.children) {
-      await child.dispose();
+    // Dispose all child containers first, they may depend on our services
+    for (const child of Array.from(this.children)) {
+      try {
+        await child.dispose();
+      } catch (error) {
+        errors.push(...flattenErrors(error));
+      }
     }
-    this.children.clear();
     
-    // Dispose all instances
-    for (const [token, instance] of this.instances) {
-      this.disposeInstance(instance, token);
+    for (const { instance, token, registration } of this.getDisposalOrder()) {
+      errors.push(...await this.disposeInstanceAsync(instance, token, registration));
     }
+    await Promise.all(this.pendingDisposals);
     
-    this.instances.clear();
-    this.registrations.clear();
-    
-    // Remove from parent
-    if (this.parent) {
-      this.parent.children.delete(this);
+    this.release(errors);
+  }
+
+  /**
+   * Same as dispose(), for `await using` declarations
+   */
+  async [Symbol.asyncDispose](): Promise<void> {
+    await this.dispose();
+  }
+
+  /**
+   * Dispose synchronously, in the same order as dispose(). Promises returned
+   * by cleanup hooks are not awaited, so prefer `await using` for services
+   * with async cleanup.
+   */
+  [Symbol.dispose](): void {
+    if (this.disposed) return;
+
+    this.disposed = true;
+    const errors: unknown[] = [];
+
+    for (const child of Array.from(this.children)) {
+      try {
+        child[Symbol.dispose]();
+      } catch (error) {
+        errors.push(...flattenErrors(error));
+      }
+    }
+
+    for (const { instance, token, registration } of this.getDisposalOrder()) {
+      try {
+        this.disposeInstance(instance, token, registration);
+      } catch (error) {
+        errors.push(error);
+      }
     }
+
+    this.release(errors);
   }
 
   // Private helper methods
 
-  private resolveWithContext<T>(token: ServiceIdentifier<T>, context: ResolutionContext): T {
+  private resolveWithContext<T>(
+    token: ServiceIdentifier<T>,
+    context: ResolutionContext,
+    constraints: InjectionConstraints = {}
+  ): T {
     // Check for circular dependencies
     if (context.resolutionStack.includes(token)) {
-      throw new CircularDependencyError([...context.resolutionStack, token], token);
+      const chain = [...context.resolutionStack, token];
+      this.emit(ContainerEvent.CIRCULAR_DEPENDENCY, { token, dependencyChain: chain });
+      throw new CircularDependencyError(chain, token);
+    }
+
+    // Contextual bindings are selected per injection site and never shared
+    // through the resolution cache
+    const request = createBindingRequest(token, constraints, context);
+    const binding = this.findBinding(token, request);
+    if (binding?.contextual) {
+      return this.resolveRegistrationWithContext(binding.owner, binding.registration as ServiceRegistration<T>, context, request);
     }
 
     // Check cache first (only for circular dependency prevention during this resolution)
@@ -240,8 +788,12 @@ export class Container implements IContainer {
     }
 
     // Find registration
-    const registration = this.findRegistration(token);
+    const registration = binding?.registration;
     if (!registration) {
+      if (this.hasMultiRegistrations(token)) {
+        throw new ContainerError(`Service ${getTokenName(token)} has multiple providers; use resolveAll() instead`, token);
+      }
+      this.emit(ContainerEvent.MISSING_DEPENDENCY, { token, dependencyChain: [...context.resolutionStack, token] });
       if (this.options.throwOnMissingDependencies && !context.isOptional) {
         throw new ServiceNotFoundError(token);
       }
@@ -250,46 +802,40 @@ export class Container implements IContainer {
 
     const scope = registration.options.scope || ServiceScope.SINGLETON;
 
+    // Singletons belong to the container that holds their registration, so a
+    // child resolving a parent singleton shares the parent's instance
+    if (isSharedScope(scope)) {
+      const owner = this.findRegistrationOwner(token);
+      if (owner && owner !== this) {
+        return owner.resolveWithContext(token, context);
+      }
+    }
+
+    this.checkCaptiveDependency([...context.resolutionStack, token], context.scope, registration);
+    this.checkRequestScope(token, scope);
+
     // For prototype and transient scopes, don't check for existing instances
-    // Only singletons should be cached
-    if (scope === ServiceScope.SINGLETON) {
-      const existingInstance = this.instances.get(token);
+    // Only singletons and request-scoped services should be cached
+    const cacheable = this.isCacheableScope(scope);
+    if (cacheable) {
+      const existingInstance = this.getCachedInstance(token);
       if (existingInstance) {
-        existingInstance.lastAccessed = new Date();
-        existingInstance.accessCount++;
+        this.emit(ContainerEvent.SERVICE_RESOLVED, { token, instance: existingInstance.instance });
         return existingInstance.instance;
       }
     }
 
+    if (this.isAsyncProvider(registration.provider)) {
+      throw new AsyncProviderError(token);
+    }
+
     // Add to resolution stack
     context.resolutionStack.push(token);
 
     try {
       // Create instance
-      const instance = this.createInstance<T>(registration, context);
-      
-      // Cache singleton instances only
-      if (scope === ServiceScope.SINGLETON) {
-        const serviceInstance: ServiceInstance<T> = {
-          instance,
-          scope,
-          createdAt: new Date(),
-          lastAccessed: new Date(),
-          accessCount: 1,
-          disposed: false
-        };
-        this.instances.set(token, serviceInstance);
-      }
-
-      // Add to resolution cache for circular dependency prevention 
-      // (only during active resolution of this token)
-      context.cache.set(token, instance);
-
-      // Call activation hook if defined
-      if (registration.options.onActivation) {
-        registration.options.onActivation(instance);
-      }
-
+      const instance = this.createInstance<T>(registration, { ...context, request, scope });
+      this.completeInstance(token, registration, scope, instance, context);
       return instance;
     } finally {
       // Remove from resolution stack
@@ -297,103 +843,835 @@ export class Container implements IContainer {
     }
   }
 
-  private createInstance<T>(registration: ServiceRegistration<T>, context: ResolutionContext): T {
-    const { provider } = registration;
+  private async resolveAsyncWithContext<T>(
+    token: ServiceIdentifier<T>,
+    context: ResolutionContext,
+    constraints: InjectionConstraints = {}
+  ): Promise<T> {
+    // Check for circular dependencies
+    if (context.resolutionStack.includes(token)) {
+      const chain = [...context.resolutionStack, token];
+      this.emit(ContainerEvent.CIRCULAR_DEPENDENCY, { token, dependencyChain: chain });
+      throw new CircularDependencyError(chain, token);
+    }
+
+    const request = createBindingRequest(token, constraints, context);
+    const binding = this.findBinding(token, request);
+    if (binding?.contextual) {
+      return this.resolveRegistrationAsyncWithContext(binding.owner, binding.registration as ServiceRegistration<T>, context, request);
+    }
+
+    if (context.cache.has(token)) {
+      return context.cache.get(token);
+    }
+
+    const registration = binding?.registration;
+    if (!registration) {
+      if (this.hasMultiRegistrations(token)) {
+        throw new ContainerError(`Service ${getTokenName(token)} has multiple providers; use resolveAll() instead`, token);
+      }
+      this.emit(ContainerEvent.MISSING_DEPENDENCY, { token, dependencyChain: [...context.resolutionStack, token] });
+      if (this.options.throwOnMissingDependencies && !context.isOptional) {
+        throw new ServiceNotFoundError(token);
+      }
+      return undefined as any;
+    }
+
+    const scope = registration.options.scope || ServiceScope.SINGLETON;
+
+    if (isSharedScope(scope)) {
+      const owner = this.findRegistrationOwner(token);
+      if (owner && owner !== this) {
+        return owner.resolveAsyncWithContext(token, context);
+      }
+    }
+
+    this.checkCaptiveDependency([...context.resolutionStack, token], context.scope, registration);
+    this.checkRequestScope(token, scope);
+
+    const cacheable = this.isCacheableScope(scope);
+    if (cacheable) {
+      const existingInstance = this.getCachedInstance(token);
+      if (existingInstance) {
+        this.emit(ContainerEvent.SERVICE_RESOLVED, { token, instance: existingInstance.instance });
+        return existingInstance.instance;
+      }
+
+      // Share in-flight initialization between concurrent callers
+      const pending = this.pending.get(token);
+      if (pending) {
+        return pending;
+      }
+    }
+
+    const creation = (async () => {
+      const childContext = { ...context, resolutionStack: [...context.resolutionStack, token], request, scope };
+      const instance = await this.createInstanceAsync<T>(registration, childContext);
+      this.completeInstance(token, registration, scope, instance, context);
+      return instance;
+    })();
+
+    if (!cacheable) {
+      return creation;
+    }
+
+    this.pending.set(token, creation);
+    try {
+      return await creation;
+    } finally {
+      this.pending.delete(token);
+    }
+  }
+
+  private resolveAllWithContext<T>(token: ServiceIdentifier<T>, context: ResolutionContext): T[] {
+    const registrations = this.collectMultiRegistrations(token);
+    if (registrations.length === 0) {
+      return this.findRegistration(token) ? [this.resolveWithContext(token, context)] : [];
+    }
+
+    return registrations.map(({ owner, registration }) =>
+      this.resolveRegistrationWithContext(owner, registration as ServiceRegistration<T>, context)
+    );
+  }
+
+  private async resolveAllAsyncWithContext<T>(token: ServiceIdentifier<T>, context: ResolutionContext): Promise<T[]> {
+    const registrations = this.collectMultiRegistrations(token);
+    if (registrations.length === 0) {
+      return this.findRegistration(token) ? [await this.resolveAsyncWithContext(token, context)] : [];
+    }
+
+    const instances: T[] = [];
+    for (const { owner, registration } of registrations) {
+      instances.push(await this.resolveRegistrationAsyncWithContext(owner, registration as ServiceRegistration<T>, context));
+    }
+    return instances;
+  }
+
+  private resolveRegistrationWithContext<T>(
+    owner: Container,
+    registration: ServiceRegistration<T>,
+    context: ResolutionContext,
+    request: BindingRequest = createBindingRequest(registration.token, {}, context)
+  ): T {
+    const { token } = registration;
+    if (context.resolutionStack.includes(token)) {
+      const chain = [...context.resolutionStack, token];
+      this.emit(ContainerEvent.CIRCULAR_DEPENDENCY, { token, dependencyChain: chain });
+      throw new CircularDependencyError(chain, token);
+    }
+
+    // Same ownership rules as single registrations: singletons live with
+    // their registration, request-scoped instances with the resolving container
+    const scope = registration.options.scope || ServiceScope.SINGLETON;
+    const holder = isSharedScope(scope) ? owner : this;
+    this.checkCaptiveDependency([...context.resolutionStack, token], context.scope, registration);
+    this.checkRequestScope(token, scope);
+
+    if (this.isCacheableScope(scope)) {
+      const existingInstance = holder.getCachedRegistrationInstance(registration);
+      if (existingInstance) {
+        holder.emit(ContainerEvent.SERVICE_RESOLVED, { token, instance: existingInstance.instance });
+        return existingInstance.instance;
+      }
+    }
+
+    if (this.isAsyncProvider(registration.provider)) {
+      throw new AsyncProviderError(token);
+    }
+
+    context.resolutionStack.push(token);
+    try {
+      const instance = holder.createInstance<T>(registration, { ...context, request, scope });
+      holder.completeRegistrationInstance(registration, scope, instance);
+      return instance;
+    } finally {
+      context.resolutionStack.pop();
+    }
+  }
+
+  private async resolveRegistrationAsyncWithContext<T>(
+    owner: Container,
+    registration: ServiceRegistration<T>,
+    context: ResolutionContext,
+    request: BindingRequest = createBindingRequest(registration.token, {}, context)
+  ): Promise<T> {
+    const { token } = registration;
+    if (context.resolutionStack.includes(token)) {
+      const chain = [...context.resolutionStack, token];
+      this.emit(ContainerEvent.CIRCULAR_DEPENDENCY, { token, dependencyChain: chain });
+      throw new CircularDependencyError(chain, token);
+    }
+
+    const scope = registration.options.scope || ServiceScope.SINGLETON;
+    const holder = isSharedScope(scope) ? owner : this;
+    this.checkCaptiveDependency([...context.resolutionStack, token], context.scope, registration);
+    this.checkRequestScope(token, scope);
+
+    if (this.isCacheableScope(scope)) {
+      const existingInstance = holder.getCachedRegistrationInstance(registration);
+      if (existingInstance) {
+        holder.emit(ContainerEvent.SERVICE_RESOLVED, { token, instance: existingInstance.instance });
+        return existingInstance.instance;
+      }
+    }
+
+    const childContext = { ...context, resolutionStack: [...context.resolutionStack, token], request, scope };
+    const instance = await holder.createInstanceAsync<T>(registration, childContext);
+    holder.completeRegistrationInstance(registration, scope, instance);
+    return instance;
+  }
+
+  /**
+   * Singleton and request instances are always kept; enableCaching only
+   * switches the eviction cache behind the cached scope
+   */
+  private isCacheableScope(scope: ServiceScope): boolean {
+    if (scope === ServiceScope.CACHED) {
+      return this.options.enableCaching !== false;
+    }
+    return scope === ServiceScope.SINGLETON || scope === ServiceScope.REQUEST;
+  }
+
+  private getCachedInstance(token: ServiceIdentifier): ServiceInstance | undefined {
+    const existingInstance = this.instances.get(token);
+    if (existingInstance && isExpired(existingInstance)) {
+      this.evict({ instance: existingInstance, token, registration: this.registrations.get(token) });
+      return undefined;
+    }
+    if (existingInstance) {
+      this.stats.recordCacheHit(token);
+    }
+    return this.touchInstance(existingInstance);
+  }
+
+  private getCachedRegistrationInstance(registration: ServiceRegistration): ServiceInstance | undefined {
+    const existingInstance = this.registrationInstances.get(registration);
+    if (existingInstance && isExpired(existingInstance)) {
+      this.evict({ instance: existingInstance, token: registration.token, registration });
+      return undefined;
+    }
+    if (existingInstance) {
+      this.stats.recordCacheHit(registration.token);
+    }
+    return this.touchInstance(existingInstance);
+  }
+
+  private touchInstance(existingInstance: ServiceInstance | undefined): ServiceInstance | undefined {
+    if (existingInstance) {
+      existingInstance.lastAccessed = new Date();
+      existingInstance.accessCount++;
+    }
+    return existingInstance;
+  }
+
+  private completeInstance<T>(
+    token: ServiceIdentifier<T>,
+    registration: ServiceRegistration<T>,
+    scope: ServiceScope,
+    instance: T,
+    context: ResolutionContext
+  ): void {
+    // Cache singleton and request-scoped instances only
+    const cacheable = this.isCacheableScope(scope);
+    this.stats.recordCreation(token, cacheable);
+    if (cacheable) {
+      const cached = this.createServiceInstance(registration, scope, instance);
+      this.instances.set(token, cached);
+      this.enforceCacheLimit(cached);
+    } else {
+      this.trackInstance(registration, scope, instance);
+    }
+
+    // Add to resolution cache for circular dependency prevention 
+    // (only during active resolution of this token)
+    context.cache.set(token, instance);
+
+    this.activateInstance(registration, instance);
+  }
+
+  private completeRegistrationInstance<T>(registration: ServiceRegistration<T>, scope: ServiceScope, instance: T): void {
+    const cacheable = this.isCacheableScope(scope);
+    this.stats.recordCreation(registration.token, cacheable);
+    if (cacheable) {
+      const cached = this.createServiceInstance(registration, scope, instance);
+      this.registrationInstances.set(registration, cached);
+      this.enforceCacheLimit(cached);
+    } else {
+      this.trackInstance(registration, scope, instance);
+    }
+
+    this.activateInstance(registration, instance);
+  }
+
+  /**
+   * With trackDisposables, remember transient and prototype instances that
+   * need cleanup so they are disposed together with this container. Aliases
+   * and module exports hand out instances owned by another registration,
+   * so they are left to that registration's container.
+   */
+  private trackInstance<T>(registration: ServiceRegistration<T>, scope: ServiceScope, instance: T): void {
+    const { provider } = registration;
+    if (isExistingProvider(provider) || delegatingProviders.has(provider)) return;
+
+    if (this.options.trackDisposables && this.needsDisposal(instance, registration)) {
+      this.trackedInstances.push({ registration, instance: this.createServiceInstance(registration, scope, instance) });
+    }
+  }
+
+  private createServiceInstance<T>(registration: ServiceRegistration<T>, scope: ServiceScope, instance: T): ServiceInstance<T> {
+    const createdAt = new Date();
+    return {
+      instance,
+      scope,
+      createdAt,
+      lastAccessed: createdAt,
+      accessCount: 1,
+      disposed: false,
+      ...(scope === ServiceScope.CACHED && {
+        expiresAt: new Date(createdAt.getTime() + (registration.options.ttl ?? PERFORMANCE_CONSTANTS.DEFAULT_CACHE_TTL_MS))
+      })
+    };
+  }
+
+  /**
+   * Evict expired instances, then the least recently used ones until the
+   * cached scope instances fit in maxCacheSize. Singleton and request
+   * instances are never evicted, nor is the instance just cached.
+   */
+  private enforceCacheLimit(added: ServiceInstance): void {
+    if (added.scope !== ServiceScope.CACHED) return;
+
+    const maxCacheSize = this.options.maxCacheSize ?? PERFORMANCE_CONSTANTS.DEFAULT_CACHE_SIZE;
+    const cachedEntries = this.getCacheEntries().filter(entry => entry.instance.scope === ServiceScope.CACHED);
+    if (cachedEntries.length <= maxCacheSize) return;
+
+    const entries = cachedEntries.filter(entry => entry.instance !== added);
+    const expired = entries.filter(entry => isExpired(entry.instance));
+    expired.forEach(entry => this.evict(entry));
+
+    const excess = cachedEntries.length - expired.length - maxCacheSize;
+    if (excess <= 0) return;
+
+    // Least recently used first; among equally recent ones, the least used
+    entries
+      .filter(entry => !expired.includes(entry))
+      .sort((a, b) =>
+        a.instance.lastAccessed.getTime() - b.instance.lastAccessed.getTime() ||
+        a.instance.accessCount - b.instance.accessCount
+      )
+      .slice(0, excess)
+      .forEach(entry => this.evict(entry));
+  }
+
+  /**
+   * Drop a cached instance and dispose it in the background;
+   * hook failures are reported by dispose()
+   */
+  private evict({ instance, token, registration }: CacheEntry): void {
+    if (registration && this.registrationInstances.get(registration) === instance) {
+      this.registrationInstances.delete(registration);
+    } else {
+      this.instances.delete(token);
+    }
+    this.stats.recordEviction();
+
+    const disposal: Promise<void> = this.disposeInstanceAsync(instance, token, registration).then(errors => {
+      this.reportDisposalErrors(token, errors);
+      this.pendingDisposals.delete(disposal);
+    });
+    this.pendingDisposals.add(disposal);
+  }
+
+  private activateInstance<T>(registration: ServiceRegistration<T>, instance: T): void {
+    const { token } = registration;
+
+    // Call activation hook if defined
+    if (registration.options.onActivation) {
+      registration.options.onActivation(instance);
+    }
+
+    this.emit(ContainerEvent.SERVICE_CREATED, { token, instance });
+    this.emit(ContainerEvent.SERVICE_RESOLVED, { token, instance });
+  }
+
+  private isAsyncProvider(provider: Provider): boolean {
+    return isFactoryProvider(provider) &&
+      (provider.async === true || provider.useFactory.constructor.name === 'AsyncFunction');
+  }
+
+  private createInstance<T>(registration: ServiceRegistration<T>, context: ResolutionContext): T {
+    const { provider } = registration;
+
+    if (isClassProvider(provider)) {
+      return this.applyInterceptors(registration.token, this.createClassInstance(provider.useClass, context, registration.token));
+    }
+
+    if (isValueProvider(provider)) {
+      return provider.useValue;
+    }
+
+    if (isFactoryProvider(provider)) {
+      const dependencies = this.resolveDependencies(provider.deps || [], context);
+      const instance = this.measureCreation(registration.token, () => provider.useFactory(...dependencies) as T);
+      // Factories not marked async are only recognized by their result
+      if (isThenable(instance)) {
+        instance.then(undefined, () => undefined);
+        throw new AsyncProviderError(registration.token, 'a factory that returned a promise');
+      }
+      return this.applyInterceptors(registration.token, instance);
+    }
+
+    if (isExistingProvider(provider)) {
+      return this.resolveWithContext(provider.useExisting, context);
+    }
+
+    throw new InvalidProviderError(`Unknown provider type for token: ${String((provider as any).token)}`, (provider as any).token);
+  }
+
+  private async createInstanceAsync<T>(registration: ServiceRegistration<T>, context: ResolutionContext): Promise<T> {
+    const { provider } = registration;
+
+    if (isClassProvider(provider)) {
+      return this.applyInterceptors(registration.token, await this.createClassInstanceAsync(provider.useClass, context, registration.token));
+    }
+
+    if (isValueProvider(provider)) {
+      return provider.useValue;
+    }
+
+    // Module exports resolve asynchronously in their own container, so async
+    // providers behind them work with resolveAsync()
+    const resolveDelegate = delegatingProviders.get(provider);
+    if (resolveDelegate) {
+      return await resolveDelegate() as T;
+    }
+
+    if (isFactoryProvider(provider)) {
+      const dependencies = await this.resolveDependenciesAsync(provider.deps || [], context);
+      const start = performance.now();
+      const instance = await provider.useFactory(...dependencies);
+      this.stats.recordCreationTime(registration.token, performance.now() - start);
+      return this.applyInterceptors(registration.token, instance);
+    }
+
+    if (isExistingProvider(provider)) {
+      return this.resolveAsyncWithContext(provider.useExisting, context);
+    }
+
+    throw new InvalidProviderError(`Unknown provider type for token: ${String((provider as any).token)}`, (provider as any).token);
+  }
+
+  private async createClassInstanceAsync<T>(
+    constructor: new (...args: any[]) => T,
+    context: ResolutionContext,
+    token: ServiceIdentifier = constructor
+  ): Promise<T> {
+    const dependencies = getConstructorDependencies(constructor);
+    const resolvedDependencies = await this.resolveDependenciesAsync(dependencies, context);
+
+    const instance = this.measureCreation(token, () => new constructor(...resolvedDependencies));
+
+    await this.injectPropertiesAsync(instance, context);
+
+    // Await PostConstruct methods in declaration order
+    for (const method of this.getLifecycleMethods(instance, 'postConstruct')) {
+      await method.call(instance);
+    }
+
+    return instance;
+  }
+
+  private createClassInstance<T>(
+    constructor: new (...args: any[]) => T,
+    context: ResolutionContext,
+    token: ServiceIdentifier = constructor
+  ): T {
+    // Get constructor dependencies from metadata
+    const dependencies = getConstructorDependencies(constructor);
+    const resolvedDependencies = this.resolveDependencies(dependencies, context);
+
+    // Create instance
+    const instance = this.measureCreation(token, () => new constructor(...resolvedDependencies));
+
+    // Inject properties
+    this.injectProperties(instance, context);
+
+    // Call PostConstruct methods; async ones need resolveAsync() to be awaited
+    for (const method of this.getLifecycleMethods(instance, 'postConstruct')) {
+      const result = method.call(instance);
+      if (isThenable(result)) {
+        result.then(undefined, () => undefined);
+        throw new AsyncProviderError(token, `an async @PostConstruct method ${method.name}()`);
+      }
+    }
+
+    return instance;
+  }
+
+  /**
+   * Time a constructor or factory call; its dependencies are already resolved
+   */
+  private measureCreation<T>(token: ServiceIdentifier, create: () => T): T {
+    if (!this.stats.enabled) return create();
+
+    const start = performance.now();
+    const instance = create();
+    this.stats.recordCreationTime(token, performance.now() - start);
+    return instance;
+  }
+
+  private resolveDependencies(tokens: ServiceIdentifier[], context: ResolutionContext): any[] {
+    return tokens.map(token => {
+      const childContext = { ...context, isOptional: false };
+      return this.resolveWithContext(token, childContext);
+    });
+  }
+
+  private async resolveDependenciesAsync(tokens: ServiceIdentifier[], context: ResolutionContext): Promise<any[]> {
+    const resolved: any[] = [];
+    for (const token of tokens) {
+      resolved.push(await this.resolveAsyncWithContext(token, { ...context, isOptional: false }));
+    }
+    return resolved;
+  }
+
+  private injectProperties(instance: any, context: ResolutionContext): void {
+    const propertiesMetadata = getAllPropertyMetadata(instance.constructor.prototype);
+    if (!propertiesMetadata) return;
+
+    for (const [propertyKey, metadata] of propertiesMetadata) {
+      if (metadata.inject && metadata.token && metadata.lazy && FEATURE_FLAGS.ENABLE_LAZY_LOADING) {
+        this.injectLazyProperty(instance, propertyKey, metadata.token, metadata);
+      } else if (metadata.inject && metadata.token) {
+        try {
+          const childContext = { ...context, isOptional: metadata.optional || false };
+          const dependency = metadata.multiple
+            ? this.resolveAllWithContext(metadata.token, childContext)
+            : this.resolveWithContext(metadata.token, childContext, metadata);
+          if (dependency !== undefined) {
+            instance[propertyKey] = dependency;
+          }
+        } catch (error) {
+          if (!metadata.optional) {
+            throw error;
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Inject a proxy that resolves the dependency on first use. Resolution then
+   * starts from a fresh context, so the dependency may depend on this instance.
+   */
+  private injectLazyProperty(
+    instance: any,
+    propertyKey: string | symbol,
+    token: ServiceIdentifier,
+    metadata: PropertyMetadata
+  ): void {
+    if (metadata.optional && !this.has(token)) return;
+
+    instance[propertyKey] = createLazyProxy(token, this, () => {
+      this.throwIfDisposed();
+      const context: ResolutionContext = {
+        container: this,
+        resolutionStack: [],
+        cache: new Map(),
+        isOptional: metadata.optional || false
+      };
+      return this.resolveWithContext(token, context, metadata);
+    });
+  }
+
+  private async injectPropertiesAsync(instance: any, context: ResolutionContext): Promise<void> {
+    const propertiesMetadata = getAllPropertyMetadata(instance.constructor.prototype);
+    if (!propertiesMetadata) return;
+
+    for (const [propertyKey, metadata] of propertiesMetadata) {
+      if (metadata.inject && metadata.token && metadata.lazy && FEATURE_FLAGS.ENABLE_LAZY_LOADING) {
+        this.injectLazyProperty(instance, propertyKey, metadata.token, metadata);
+      } else if (metadata.inject && metadata.token) {
+        try {
+          const childContext = { ...context, isOptional: metadata.optional || false };
+          const dependency = metadata.multiple
+            ? await this.resolveAllAsyncWithContext(metadata.token, childContext)
+            : await this.resolveAsyncWithContext(metadata.token, childContext, metadata);
+          if (dependency !== undefined) {
+            instance[propertyKey] = dependency;
+          }
+        } catch (error) {
+          if (!metadata.optional) {
+            throw error;
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Wrap the methods of a created instance with container-level interceptors,
+   * then class-level ones, then method-level ones (outermost first)
+   */
+  private applyInterceptors<T>(token: ServiceIdentifier, instance: T): T {
+    if (!FEATURE_FLAGS.ENABLE_AOP_SUPPORT || typeof instance !== 'object' || instance === null || isInterceptor(instance)) {
+      return instance;
+    }
+
+    const containerInterceptors = this.collectInterceptors()
+      .filter(({ interceptor, predicate }) => !resolvingInterceptors.has(interceptor) && predicate(token, instance))
+      .map(({ interceptor }) => interceptor);
+    const classInterceptors = getClassMetadata(instance.constructor)?.interceptors || [];
+    const methodsMetadata = getAllMethodMetadata(instance.constructor.prototype);
+
+    const hasMethodInterceptors = Array.from(methodsMetadata?.values() || []).some(metadata => metadata.interceptors);
+    if (containerInterceptors.length === 0 && classInterceptors.length === 0 && !hasMethodInterceptors) {
+      return instance;
+    }
+
+    const resolved = new Map<ServiceIdentifier<IInterceptor> | IInterceptor, IInterceptor>();
+    const resolveInterceptor = (interceptor: ServiceIdentifier<IInterceptor> | IInterceptor): IInterceptor => {
+      let result = resolved.get(interceptor);
+      if (!result) {
+        result = this.resolveInterceptor(interceptor);
+        resolved.set(interceptor, result);
+      }
+      return result;
+    };
+
+    const plan = new Map<string | symbol, IInterceptor[]>();
+    for (const method of getMethodNames(instance)) {
+      const interceptors = [
+        ...containerInterceptors,
+        ...classInterceptors,
+        ...(methodsMetadata?.get(method)?.interceptors || [])
+      ].filter(interceptor => !resolvingInterceptors.has(interceptor));
+      if (interceptors.length > 0) {
+        plan.set(method, interceptors.map(resolveInterceptor));
+      }
+    }
+
+    interceptMethods(instance, token, plan);
+    return instance;
+  }
+
+  private resolveInterceptor(interceptor: ServiceIdentifier<IInterceptor> | IInterceptor): IInterceptor {
+    if (isInterceptor(interceptor)) {
+      return interceptor;
+    }
+
+    // Interceptor classes are bound on first use, like injectable dependencies
+    if (typeof interceptor === 'function' && this.options.autoBindInjectable && !this.has(interceptor)) {
+      this.register({ type: 'class', token: interceptor, useClass: interceptor });
+    }
+
+    resolvingInterceptors.add(interceptor);
+    try {
+      return this.resolve(interceptor);
+    } finally {
+      resolvingInterceptors.delete(interceptor);
+    }
+  }
+
+  private collectInterceptors(): Container['interceptors'] {
+    return [...(this.parent?.collectInterceptors() || []), ...this.interceptors];
+  }
+
+  private getLifecycleMethods(instance: any, lifecycle: 'postConstruct' | 'preDestroy'): Function[] {
+    const methodsMetadata = getAllMethodMetadata(instance.constructor.prototype);
+    if (!methodsMetadata) return [];
+
+    const methods: Function[] = [];
+    for (const [methodName, metadata] of methodsMetadata) {
+      if (metadata.lifecycle === lifecycle) {
+        const method = instance[methodName];
+        if (typeof method === 'function') {
+          methods.push(method);
+        }
+      }
+    }
+    return methods;
+  }
+
+  /**
+   * Check a new registration against the services it depends on and against
+   * the registrations of this container that depend on it
+   */
+  private checkRegistrationScopes(registration: ServiceRegistration): void {
+    if (this.getCaptiveDependencyMode() === 'off') return;
+
+    for (const dependency of registration.dependencies) {
+      const dependencyRegistration = this.findRegistration(dependency.token);
+      if (dependencyRegistration) {
+        this.checkCaptiveDependency([registration.token, dependency.token], registration.options.scope, dependencyRegistration);
+      }
+    }
 
-    if (isClassProvider(provider)) {
-      return this.createClassInstance(provider.useClass, context);
+    const ownRegistrations = [
+      ...this.registrations.values(),
+      ...Array.from(this.multiRegistrations.values()).flat(),
+      ...Array.from(this.contextualRegistrations.values()).flat()
+    ];
+    for (const dependent of ownRegistrations) {
+      if (dependent.dependencies.some(dependency => dependency.token === registration.token)) {
+        this.checkCaptiveDependency([dependent.token, registration.token], dependent.options.scope, registration);
+      }
     }
+  }
 
-    if (isValueProvider(provider)) {
-      return provider.useValue;
+  /**
+   * Report the last link of the chain when the dependency lives shorter than
+   * its dependent: throw, or warn once per pair, per the captiveDependencies option
+   */
+  private checkCaptiveDependency(
+    chain: ServiceIdentifier[],
+    dependentScope: ServiceScope | undefined,
+    dependency: ServiceRegistration
+  ): void {
+    const mode = this.getCaptiveDependencyMode();
+    const dependencyScope = dependency.options.scope || ServiceScope.SINGLETON;
+    if (
+      mode === 'off' ||
+      !dependentScope ||
+      delegatingProviders.has(dependency.provider) ||
+      !isShorterLived(dependencyScope, dependentScope)
+    ) {
+      return;
     }
 
-    if (isFactoryProvider(provider)) {
-      const dependencies = this.resolveDependencies(provider.deps || [], context);
-      return provider.useFactory(...dependencies);
+    const error = new CaptiveDependencyError(chain, dependentScope, dependencyScope);
+    this.emit(ContainerEvent.CAPTIVE_DEPENDENCY, { token: dependency.token, dependencyChain: chain });
+    if (mode === 'throw') {
+      throw error;
     }
 
-    if (isExistingProvider(provider)) {
-      return this.resolveWithContext(provider.useExisting, context);
+    const dependent = chain[chain.length - 2]!;
+    let reported = this.reportedCaptives.get(dependent);
+    if (!reported) {
+      reported = new Set();
+      this.reportedCaptives.set(dependent, reported);
     }
+    if (!reported.has(dependency.token)) {
+      reported.add(dependency.token);
+      console.warn(error.message);
+    }
+  }
 
-    throw new InvalidProviderError(`Unknown provider type for token: ${String((provider as any).token)}`, (provider as any).token);
+  /**
+   * Request-scoped instances live in the child container of their request;
+   * the root container would keep them for the lifetime of the application
+   */
+  private checkRequestScope(token: ServiceIdentifier, scope: ServiceScope): void {
+    if (scope === ServiceScope.REQUEST && !this.parent) {
+      throw new RequestScopeError(token);
+    }
   }
 
-  private createClassInstance<T>(constructor: new (...args: any[]) => T, context: ResolutionContext): T {
-    // Get constructor dependencies from metadata
-    const dependencies = this.getConstructorDependencies(constructor);
-    const resolvedDependencies = this.resolveDependencies(dependencies, context);
+  /**
+   * Child containers follow their parent unless configured themselves
+   */
+  private getCaptiveDependencyMode(): CaptiveDependencyMode {
+    return this.options.captiveDependencies ?? this.parent?.getCaptiveDependencyMode() ?? 'off';
+  }
 
-    // Create instance
-    const instance = new constructor(...resolvedDependencies);
+  private isBound(token: ServiceIdentifier, isolated: boolean): boolean {
+    return this.isVisible(this.registrations.get(token), isolated) ||
+      this.multiRegistrations.has(token) ||
+      this.contextualRegistrations.has(token) ||
+      (this.parent?.isBound(token, this.isolatesParent(isolated)) ?? false);
+  }
 
-    // Inject properties
-    this.injectProperties(instance, context);
+  private findRegistration(token: ServiceIdentifier, isolated = false): ServiceRegistration | undefined {
+    const registration = this.registrations.get(token);
+    if (registration && this.isVisible(registration, isolated)) return registration;
 
-    // Call PostConstruct methods
-    this.callLifecycleMethods(instance, 'postConstruct');
+    // Check parent container
+    if (this.parent) {
+      return this.parent.findRegistration(token, this.isolatesParent(isolated));
+    }
 
-    return instance;
+    return undefined;
   }
 
-  private getConstructorDependencies(constructor: Function): ServiceIdentifier[] {
-    const metadata = getClassMetadata(constructor);
-    return metadata?.dependencies || [];
+  /**
+   * Lookups from inside a module container skip the exports loadModule()
+   * registered further up, so a module only sees the modules it imports
+   */
+  private isolatesParent(isolated: boolean): boolean {
+    return isolated || moduleContainers.has(this);
   }
 
-  private resolveDependencies(tokens: ServiceIdentifier[], context: ResolutionContext): any[] {
-    return tokens.map(token => {
-      const childContext = { ...context, isOptional: false };
-      return this.resolveWithContext(token, childContext);
-    });
+  private isVisible(registration: ServiceRegistration | undefined, isolated: boolean): registration is ServiceRegistration {
+    return !!registration && !(isolated && moduleExportProviders.has(registration.provider));
   }
 
-  private injectProperties(instance: any, context: ResolutionContext): void {
-    const propertiesMetadata = getAllPropertyMetadata(instance.constructor.prototype);
-    if (!propertiesMetadata) return;
+  private collectMultiRegistrations(token: ServiceIdentifier): Array<{ owner: Container; registration: ServiceRegistration }> {
+    const inherited = this.parent ? this.parent.collectMultiRegistrations(token) : [];
+    const own = (this.multiRegistrations.get(token) || []).map(registration => ({ owner: this as Container, registration }));
+    return [...inherited, ...own];
+  }
 
-    for (const [propertyKey, metadata] of propertiesMetadata) {
-      if (metadata.inject && metadata.token) {
-        try {
-          const childContext = { ...context, isOptional: metadata.optional || false };
-          const dependency = this.resolveWithContext(metadata.token, childContext);
-          if (dependency !== undefined) {
-            instance[propertyKey] = dependency;
-          }
-        } catch (error) {
-          if (!metadata.optional) {
-            throw error;
-          }
-        }
-      }
-    }
+  private hasMultiRegistrations(token: ServiceIdentifier): boolean {
+    return this.multiRegistrations.has(token) || (this.parent?.hasMultiRegistrations(token) ?? false);
   }
 
-  private callLifecycleMethods(instance: any, lifecycle: 'postConstruct' | 'preDestroy'): void {
-    const methodsMetadata = getAllMethodMetadata(instance.constructor.prototype);
-    if (!methodsMetadata) return;
+  private storeRegistration(registration: ServiceRegistration): void {
+    const { token } = registration;
 
-    for (const [methodName, metadata] of methodsMetadata) {
-      if (metadata.lifecycle === lifecycle) {
-        const method = instance[methodName];
-        if (typeof method === 'function') {
-          method.call(instance);
-        }
-      }
+    if (registration.options.multi || isContextualBinding(registration.options)) {
+      const store = registration.options.multi ? this.multiRegistrations : this.contextualRegistrations;
+      const registrations = store.get(token) || [];
+      registrations.push(registration);
+      store.set(token, registrations);
+      return;
+    }
+
+    // A replaced registration must not keep serving the previous instance;
+    // the old instance is left to whoever still holds it (e.g. a snapshot)
+    if (this.registrations.has(token)) {
+      this.instances.delete(token);
     }
+
+    this.registrations.set(token, registration);
   }
 
-  private findRegistration(token: ServiceIdentifier): ServiceRegistration | undefined {
-    const registration = this.registrations.get(token);
-    if (registration) return registration;
+  /**
+   * Select the binding for an injection site: the nearest container with a
+   * matching contextual binding or a plain registration wins
+   */
+  private findBinding(
+    token: ServiceIdentifier,
+    request: BindingRequest,
+    isolated = false
+  ): { owner: Container; registration: ServiceRegistration; contextual: boolean } | undefined {
+    const matches = (this.contextualRegistrations.get(token) || [])
+      .filter(registration => matchesRequest(registration.options, request));
+    if (matches.length > 1) {
+      throw new ContainerError(
+        `Ambiguous binding for ${getTokenName(token)}: ${matches.length} contextual bindings match`,
+        token
+      );
+    }
+    if (matches[0]) {
+      return { owner: this, registration: matches[0], contextual: true };
+    }
 
-    // Check parent container
-    if (this.parent) {
-      return (this.parent as Container).findRegistration(token);
+    const registration = this.registrations.get(token);
+    if (this.isVisible(registration, isolated) && matchesRequest(registration.options, request)) {
+      return { owner: this, registration, contextual: false };
     }
 
-    return undefined;
+    return this.parent?.findBinding(token, request, this.isolatesParent(isolated));
+  }
+
+  private findRegistrationOwner(token: ServiceIdentifier): Container | undefined {
+    if (this.registrations.has(token)) return this;
+    return this.parent?.findRegistrationOwner(token);
+  }
+
+  private getDeclaredScope(provider: Provider): ServiceScope | undefined {
+    if (!isClassProvider(provider)) return undefined;
+    return getClassMetadata(provider.useClass)?.scope as ServiceScope | undefined;
   }
 
   private validateProvider(provider: Provider): void {
@@ -412,21 +1690,50 @@ export class Container implements IContainer {
     }
   }
 
-  private extractDependencies(provider: Provider): any[] {
-    if (isClassProvider(provider)) {
-      return this.getConstructorDependencies(provider.useClass);
+  private collectRegistrations(): ServiceRegistration[] {
+    return this.collectBindings().map(({ registration }) => registration);
+  }
+
+  /**
+   * Every registration visible from this container with the container holding it;
+   * plain registrations overridden by a child are left out
+   */
+  private collectBindings(): Array<{ owner: Container; registration: ServiceRegistration }> {
+    const registrations = new Map<ServiceIdentifier, { owner: Container; registration: ServiceRegistration }>();
+    const listedRegistrations: Array<{ owner: Container; registration: ServiceRegistration }> = [];
+
+    // Walk from the root so child registrations override their parents'
+    const lineage: Container[] = [];
+    for (let current: Container | undefined = this; current; current = current.parent) {
+      lineage.unshift(current);
     }
-    if (isFactoryProvider(provider)) {
-      return provider.deps || [];
+    for (const owner of lineage) {
+      owner.registrations.forEach((registration, token) => registrations.set(token, { owner, registration }));
+      for (const list of [...owner.multiRegistrations.values(), ...owner.contextualRegistrations.values()]) {
+        listedRegistrations.push(...list.map(registration => ({ owner, registration })));
+      }
+    }
+
+    return [...registrations.values(), ...listedRegistrations];
+  }
+
+  /**
+   * Register the providers a class declares with @Provide, leaving tokens
+   * already bound here or in a parent to their existing registration
+   */
+  private registerDeclaredProviders(constructor: Function): void {
+    for (const provider of getClassMetadata(constructor)?.providers || []) {
+      if (!this.has(provider.token)) {
+        this.register(provider);
+      }
     }
-    return [];
   }
 
   private autoBindInjectableClass(constructor: Function): void {
     const metadata = getClassMetadata(constructor);
     if (metadata?.injectable) {
       // Auto-register injectable dependencies
-      const dependencies = metadata.dependencies || [];
+      const dependencies = getConstructorDependencies(constructor);
       dependencies.forEach(dep => {
         if (typeof dep === 'function' && !this.has(dep)) {
           this.register({
@@ -439,19 +1746,209 @@ export class Container implements IContainer {
     }
   }
 
-  private disposeInstance(instance: ServiceInstance, token: ServiceIdentifier): void {
+  /**
+   * Remove every binding of a token, returning the instances to dispose
+   */
+  private removeBindings(token: ServiceIdentifier): { removed: boolean; entries: CacheEntry[] } {
+    const entries: CacheEntry[] = [];
+
+    const instance = this.instances.get(token);
+    if (instance) {
+      entries.push({ instance, token, registration: this.registrations.get(token) });
+      this.instances.delete(token);
+    }
+
+    const listedRegistrations = [
+      ...(this.multiRegistrations.get(token) || []),
+      ...(this.contextualRegistrations.get(token) || [])
+    ];
+    for (const registration of listedRegistrations) {
+      const registrationInstance = this.registrationInstances.get(registration);
+      if (registrationInstance) {
+        entries.push({ instance: registrationInstance, token, registration });
+        this.registrationInstances.delete(registration);
+      }
+    }
+    this.multiRegistrations.delete(token);
+    this.contextualRegistrations.delete(token);
+
+    return { removed: this.registrations.delete(token) || listedRegistrations.length > 0, entries };
+  }
+
+  /**
+   * Remove every binding, returning the instances to dispose in disposal order
+   */
+  private clearBindings(): CacheEntry[] {
+    const entries = this.getDisposalOrder();
+
+    this.instances.clear();
+    this.registrationInstances.clear();
+    this.trackedInstances.length = 0;
+    this.registrations.clear();
+    this.multiRegistrations.clear();
+    this.contextualRegistrations.clear();
+    return entries;
+  }
+
+  private async disposeEntries(entries: CacheEntry[]): Promise<void> {
+    const errors: unknown[] = [];
+    for (const { instance, token, registration } of entries) {
+      errors.push(...await this.disposeInstanceAsync(instance, token, registration));
+    }
+    if (errors.length > 0) {
+      throw new AggregateError(errors, `${errors.length} disposal hooks failed`);
+    }
+  }
+
+  /**
+   * Dispose an instance without waiting for async hooks. Their failures
+   * are emitted as disposal:failed events and rethrown by the next dispose().
+   */
+  private disposeInstance(
+    instance: ServiceInstance,
+    token: ServiceIdentifier,
+    registration: ServiceRegistration | undefined = this.registrations.get(token)
+  ): void {
     if (instance.disposed) return;
 
-    // Call PreDestroy methods
-    this.callLifecycleMethods(instance.instance, 'preDestroy');
+    for (const hook of this.getDisposalHooks(instance.instance, registration)) {
+      const result = hook.run();
+      if (isThenable(result)) {
+        this.trackPendingDisposal(token, result);
+      }
+    }
+
+    instance.disposed = true;
+    this.emit(ContainerEvent.SERVICE_DISPOSED, { token, instance: instance.instance });
+  }
 
-    // Call deactivation hook if defined
-    const registration = this.registrations.get(token);
-    if (registration?.options.onDeactivation) {
-      registration.options.onDeactivation(instance.instance);
+  private trackPendingDisposal(token: ServiceIdentifier, result: PromiseLike<unknown>): void {
+    const pending: Promise<void> = Promise.resolve(result)
+      .then(() => undefined, error => this.reportDisposalErrors(token, [error]))
+      .finally(() => this.pendingDisposals.delete(pending));
+    this.pendingDisposals.add(pending);
+  }
+
+  private reportDisposalErrors(token: ServiceIdentifier, errors: unknown[]): void {
+    for (const error of errors) {
+      this.disposalErrors.push(error);
+      this.emit(ContainerEvent.DISPOSAL_FAILED, { token, error });
     }
+  }
+
+  /**
+   * Cached and tracked instances ordered so that dependents come before their dependencies
+   */
+  private getDisposalOrder(): CacheEntry[] {
+    const graph = buildDependencyGraph(this.collectRegistrations());
+    const entries = [
+      ...this.getCacheEntries(),
+      ...this.trackedInstances.map(({ instance, registration }) => ({ instance, token: registration.token, registration }))
+    ];
+
+    // Instances are cached after their dependencies, so ties are broken by reverse creation order
+    return entries
+      .reverse()
+      .sort((a, b) => (graph.get(b.token)?.depth ?? 0) - (graph.get(a.token)?.depth ?? 0));
+  }
+
+  private getCacheEntries(): CacheEntry[] {
+    return [
+      ...Array.from(this.instances, ([token, instance]) => ({ instance, token, registration: this.registrations.get(token) })),
+      ...Array.from(this.registrationInstances, ([registration, instance]) => ({ instance, token: registration.token, registration }))
+    ];
+  }
 
+  private async disposeInstanceAsync(
+    instance: ServiceInstance,
+    token: ServiceIdentifier,
+    registration: ServiceRegistration | undefined = this.registrations.get(token)
+  ): Promise<unknown[]> {
+    if (instance.disposed) return [];
     instance.disposed = true;
+
+    const timeout = this.options.disposeTimeout ?? PERFORMANCE_CONSTANTS.DEFAULT_TIMEOUT_MS;
+    const errors: unknown[] = [];
+    for (const hook of this.getDisposalHooks(instance.instance, registration)) {
+      try {
+        await runWithTimeout(hook.run, timeout, () => new DisposalTimeoutError(token, hook.name, timeout));
+      } catch (error) {
+        errors.push(error);
+      }
+    }
+
+    this.emit(ContainerEvent.SERVICE_DISPOSED, { token, instance: instance.instance });
+    return errors;
+  }
+
+  /**
+   * Cleanup steps for an instance: @PreDestroy methods, then Symbol.asyncDispose
+   * or Symbol.dispose, then the registration's onDeactivation hook
+   */
+  private getDisposalHooks(instance: any, registration: ServiceRegistration | undefined): Array<{ name: string; run: () => unknown }> {
+    const hooks: Array<{ name: string; run: () => unknown }> = [];
+
+    if (typeof instance === 'object' && instance !== null) {
+      const preDestroy = this.getLifecycleMethods(instance, 'preDestroy');
+      hooks.push(...preDestroy.map(method => ({ name: `@PreDestroy ${method.name}()`, run: () => method.call(instance) })));
+
+      const symbol = getDisposeSymbol(instance);
+      // A dispose method that is also marked @PreDestroy runs only once
+      if (symbol && !preDestroy.includes(instance[symbol])) {
+        hooks.push({ name: `[${symbol.description}]()`, run: () => instance[symbol]() });
+      }
+    }
+
+    const onDeactivation = registration?.options.onDeactivation;
+    if (onDeactivation) {
+      hooks.push({ name: 'onDeactivation', run: () => onDeactivation(instance) });
+    }
+    return hooks;
+  }
+
+  /**
+   * Whether disposal would run anything for this instance
+   */
+  private needsDisposal(instance: unknown, registration: ServiceRegistration): boolean {
+    return this.getDisposalHooks(instance, registration).length > 0;
+  }
+
+  /**
+   * Final step of disposal: drop all state, detach from the parent and
+   * report the hook failures collected along the way
+   */
+  private release(errors: unknown[]): void {
+    errors.push(...this.disposalErrors);
+    this.statsReporters.forEach(timer => clearInterval(timer));
+    this.statsReporters.clear();
+    this.children.clear();
+    this.instances.clear();
+    this.registrationInstances.clear();
+    this.trackedInstances.length = 0;
+    this.registrations.clear();
+    this.multiRegistrations.clear();
+    this.contextualRegistrations.clear();
+
+    this.emit(ContainerEvent.CONTAINER_DISPOSED, {});
+    this.listeners.clear();
+    
+    // Remove from parent
+    if (this.parent) {
+      this.parent.children.delete(this);
+    }
+
+    if (errors.length > 0) {
+      throw new AggregateError(errors, `${errors.length} disposal hooks failed`);
+    }
+  }
+
+  private emit(event: ContainerEvent, data: Omit<ContainerEventData, 'event' | 'container' | 'timestamp'>): void {
+    this.dispatch({ ...data, event, container: this, timestamp: new Date() });
+  }
+
+  private dispatch(data: ContainerEventData): void {
+    this.listeners.get(data.event)?.forEach(listener => listener(data));
+    this.parent?.dispatch(data);
   }
 
   private getSourceLocation(): string | undefined {
@@ -475,6 +1972,103 @@ export class Container implements IContainer {
   }
 }
 
+interface CacheEntry {
+  instance: ServiceInstance;
+  token: ServiceIdentifier;
+  registration: ServiceRegistration | undefined;
+}
+
+/**
+ * Singleton and cached scope instances are shared through the container holding the registration
+ */
+/**
+ * Interceptors being resolved, across all containers. Their own dependencies
+ * are created meanwhile and must not be wrapped by them, or resolving the
+ * interceptor for a dependency would start over.
+ */
+const resolvingInterceptors = new Set<ServiceIdentifier<IInterceptor> | IInterceptor>();
+
+function isSharedScope(scope: ServiceScope): boolean {
+  return scope === ServiceScope.SINGLETON || scope === ServiceScope.CACHED;
+}
+
+function isThenable(value: unknown): value is PromiseLike<unknown> {
+  return (typeof value === 'object' || typeof value === 'function') &&
+    value !== null &&
+    typeof (value as PromiseLike<unknown>).then === 'function';
+}
+
+function isExpired(instance: ServiceInstance): boolean {
+  return instance.expiresAt !== undefined && instance.expiresAt.getTime() <= Date.now();
+}
+
+function flattenErrors(error: unknown): unknown[] {
+  return error instanceof AggregateError ? error.errors : [error];
+}
+
+/**
+ * Run a possibly async hook, rejecting if it has not settled within the timeout
+ */
+function runWithTimeout(run: () => unknown, timeoutMs: number, onTimeout: () => Error): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(onTimeout()), timeoutMs);
+    Promise.resolve()
+      .then(run)
+      .then(() => resolve(), reject)
+      .finally(() => clearTimeout(timer));
+  });
+}
+
+/**
+ * Contextual bindings are only selected by injection sites whose constraints they match
+ */
+function isContextualBinding(options: ServiceOptions): boolean {
+  return options.name !== undefined || options.tagged !== undefined || options.when !== undefined;
+}
+
+function matchesRequest(options: ServiceOptions, request: BindingRequest): boolean {
+  if (options.name !== request.named) {
+    return false;
+  }
+
+  const provided = Object.entries(options.tagged || {});
+  const required = Object.entries(request.tagged || {});
+  if (provided.length !== required.length || !required.every(([key, value]) => options.tagged?.[key] === value)) {
+    return false;
+  }
+
+  return options.when ? options.when(request) : true;
+}
+
+function injectedInto(target: ServiceIdentifier): BindingCondition {
+  return request => request.parent?.token === target;
+}
+
+function parentNamed(name: string): BindingCondition {
+  return request => request.parent?.named === name;
+}
+
+/**
+ * Interceptors are never intercepted themselves, which would recurse forever
+ */
+function isInterceptor(value: unknown): value is IInterceptor {
+  return typeof value === 'object' && value !== null && typeof (value as IInterceptor).intercept === 'function';
+}
+
+function createBindingRequest(
+  token: ServiceIdentifier,
+  constraints: InjectionConstraints,
+  context: ResolutionContext
+): BindingRequest {
+  return {
+    token,
+    ...(constraints.named !== undefined && { named: constraints.named }),
+    ...(constraints.tagged && { tagged: constraints.tagged }),
+    resolutionStack: [...context.resolutionStack],
+    ...(context.request && { parent: context.request })
+  };
+}
+
 /**
  * Fluent binding builder implementation
  */
@@ -544,6 +2138,16 @@ class BindingOptions<T> implements IBindingOptions<T> {
     return new BindingFinalized<T>();
   }
 
+  inRequestScope() {
+    this.container.register(this.provider, { scope: ServiceScope.REQUEST });
+    return new BindingFinalized<T>();
+  }
+
+  inCachedScope(ttl: number) {
+    this.container.register(this.provider, { scope: ServiceScope.CACHED, ttl });
+    return new BindingFinalized<T>();
+  }
+
   inScope(scope: ServiceScope) {
     this.container.register(this.provider, { scope });
     return new BindingFinalized<T>();
@@ -553,6 +2157,26 @@ class BindingOptions<T> implements IBindingOptions<T> {
     this.container.register(this.provider, options);
     return new BindingFinalized<T>();
   }
+
+  named(name: string) {
+    return this.withOptions({ name });
+  }
+
+  whenTagged(key: string, value: unknown) {
+    return this.withOptions({ tagged: { [key]: value } });
+  }
+
+  whenInjectedInto(target: ServiceIdentifier) {
+    return this.withOptions({ when: injectedInto(target) });
+  }
+
+  whenParentNamed(name: string) {
+    return this.withOptions({ when: parentNamed(name) });
+  }
+
+  when(condition: BindingCondition) {
+    return this.withOptions({ when: condition });
+  }
 }
 
 class BindingFactoryOptions<T> implements IBindingFactoryOptions<T> {
@@ -609,6 +2233,28 @@ class BindingFactoryOptions<T> implements IBindingFactoryOptions<T> {
     return new BindingFinalized<T>();
   }
 
+  inRequestScope() {
+    this.container.register({
+      type: 'factory',
+      token: this.token,
+      useFactory: this.factory,
+      deps: this.deps,
+      scope: ServiceScope.REQUEST
+    });
+    return new BindingFinalized<T>();
+  }
+
+  inCachedScope(ttl: number) {
+    this.container.register({
+      type: 'factory',
+      token: this.token,
+      useFactory: this.factory,
+      deps: this.deps,
+      scope: ServiceScope.CACHED
+    }, { ttl });
+    return new BindingFinalized<T>();
+  }
+
   inScope(scope: ServiceScope) {
     this.container.register({
       type: 'factory',
@@ -629,6 +2275,26 @@ class BindingFactoryOptions<T> implements IBindingFactoryOptions<T> {
     }, options);
     return new BindingFinalized<T>();
   }
+
+  named(name: string) {
+    return this.withOptions({ name });
+  }
+
+  whenTagged(key: string, value: unknown) {
+    return this.withOptions({ tagged: { [key]: value } });
+  }
+
+  whenInjectedInto(target: ServiceIdentifier) {
+    return this.withOptions({ when: injectedInto(target) });
+  }
+
+  whenParentNamed(name: string) {
+    return this.withOptions({ when: parentNamed(name) });
+  }
+
+  when(condition: BindingCondition) {
+    return this.withOptions({ when: condition });
+  }
 }
 
 class BindingFinalized<T> implements IBindingFinalized<T> {
@@ -2,6 +2,8 @@
 
 import { Container } from './Container';
 import { IContainer, ContainerOptions, ServiceScope } from '../types';
+import { IServiceCollection } from '../types/advanced';
+import { InjectableFilter } from '../metadata';
 
 /**
  * Factory for creating and configuring containers
@@ -14,6 +16,25 @@ export class ContainerFactory {
     return new Container(options);
   }
 
+  /**
+   * Create a container holding every provider of a service collection
+   */
+  static fromCollection(collection: IServiceCollection, options?: Partial<ContainerOptions>): IContainer {
+    const container = new Container(options);
+    for (const provider of collection.build()) {
+      container.register(provider);
+    }
+    return container;
+  }
+
+  /**
+   * Create a container holding the discoverable @Injectable classes
+   * matching the filter
+   */
+  static createFromRegistry(filter?: InjectableFilter, options?: Partial<ContainerOptions>): IContainer {
+    return new Container(options).scan(filter);
+  }
+
   /**
    * Create a container optimized for singleton services
    */
@@ -61,7 +82,8 @@ export class ContainerFactory {
       autoBindInjectable: true,
       throwOnMissingDependencies: true,
       skipBaseClassChecks: false,
-      maxCacheSize: 500
+      maxCacheSize: 500,
+      captiveDependencies: 'throw'
     });
   }
 
@@ -0,0 +1,127 @@
+// Module loader building one isolated child container per module
+
+import {
+  IContainer,
+  Provider,
+  ServiceIdentifier,
+  ServiceScope,
+  ContainerError,
+  getTokenName
+} from '../types';
+
+import { ModuleClass, CircularModuleImportError } from '../types/advanced';
+
+import { getClassMetadata } from '../metadata';
+
+/**
+ * Loads modules into child containers of a root container.
+ * Each module is loaded once per loader, no matter how often it is imported.
+ */
+export class ModuleLoader {
+  private readonly loaded = new Map<ModuleClass, IContainer>();
+
+  constructor(private readonly root: IContainer) {}
+
+  /**
+   * Load a module and its imports, returning the module's container
+   */
+  load(moduleClass: ModuleClass): IContainer {
+    return this.loadModule(moduleClass, []);
+  }
+
+  private loadModule(moduleClass: ModuleClass, importChain: ModuleClass[]): IContainer {
+    if (importChain.includes(moduleClass)) {
+      throw new CircularModuleImportError([...importChain, moduleClass]);
+    }
+
+    const existing = this.loaded.get(moduleClass);
+    if (existing) return existing;
+
+    const metadata = getClassMetadata(moduleClass)?.module;
+    if (!metadata) {
+      throw new ContainerError(`${moduleClass.name} is not decorated with @Module`);
+    }
+
+    const moduleContainer = this.root.createChild();
+    moduleContainers.add(moduleContainer);
+    const chain = [...importChain, moduleClass];
+
+    // Imported modules only contribute the tokens they export
+    for (const imported of metadata.imports || []) {
+      const importedContainer = this.loadModule(imported, chain);
+      for (const token of this.getExports(imported)) {
+        exposeToken(moduleContainer, importedContainer, token);
+      }
+    }
+
+    for (const provider of metadata.providers || []) {
+      moduleContainer.register(toProvider(provider));
+    }
+
+    for (const token of metadata.exports || []) {
+      if (!this.isProvidedBy(moduleClass, token)) {
+        throw new ContainerError(
+          `Module ${moduleClass.name} exports ${getTokenName(token)} which it neither provides nor imports`,
+          token
+        );
+      }
+    }
+
+    this.loaded.set(moduleClass, moduleContainer);
+    return moduleContainer;
+  }
+
+  /**
+   * Tokens a module makes available to its importers
+   */
+  getExports(moduleClass: ModuleClass): ServiceIdentifier[] {
+    return getClassMetadata(moduleClass)?.module?.exports || [];
+  }
+
+  private isProvidedBy(moduleClass: ModuleClass, token: ServiceIdentifier): boolean {
+    const metadata = getClassMetadata(moduleClass)?.module;
+    const provided = (metadata?.providers || []).some(provider => toProvider(provider).token === token);
+    const imported = (metadata?.imports || []).some(imported => this.getExports(imported).includes(token));
+    return provided || imported;
+  }
+}
+
+/**
+ * Providers registered by exposeToken(), with the async resolution of the
+ * service they delegate to. They take the lifetime of that service, so
+ * scope checks skip them.
+ */
+export const delegatingProviders = new WeakMap<Provider, () => Promise<unknown>>();
+
+/**
+ * Containers created for modules
+ */
+export const moduleContainers = new WeakSet<IContainer>();
+
+/**
+ * Providers registered by Container.loadModule(); module containers skip them
+ * so that a module cannot reach another module's exports without importing it
+ */
+export const moduleExportProviders = new WeakSet<Provider>();
+
+/**
+ * Register a token in `target` that delegates to the container owning it
+ */
+export function exposeToken(target: IContainer, source: IContainer, token: ServiceIdentifier): Provider {
+  const provider: Provider = {
+    type: 'factory',
+    token,
+    useFactory: () => source.resolve(token),
+    scope: ServiceScope.TRANSIENT
+  };
+  delegatingProviders.set(provider, () => source.resolveAsync(token));
+  target.register(provider);
+  return provider;
+}
+
+function toProvider(provider: Provider | (new (...args: any[]) => any)): Provider {
+  if (typeof provider === 'function') {
+    return { type: 'class', token: provider, useClass: provider };
+  }
+  return provider;
+}
@@ -0,0 +1,130 @@
+// Service collection builder for bulk registrations
+
+import {
+  Provider,
+  ServiceIdentifier,
+  ServiceScope,
+  InvalidProviderError,
+  getTokenName
+} from '../types';
+
+import { IServiceCollection } from '../types/advanced';
+
+type Implementation<T> = new (...args: any[]) => T;
+
+/**
+ * Collects providers before a container exists, so registration code can be
+ * split across feature files and shared between applications:
+ *
+ *   export function addUsers(services: ServiceCollection): ServiceCollection {
+ *     return services.addSingleton(UserRepository).addScoped(UserService);
+ *   }
+ *
+ * Adding a token twice keeps both providers; the container resolves the last one.
+ */
+export class ServiceCollection implements IServiceCollection {
+  private providers: Provider[] = [];
+
+  /**
+   * Add a class shared by the whole container
+   */
+  addSingleton<T>(token: ServiceIdentifier<T>, implementation?: Implementation<T>): this {
+    return this.add(toClassProvider(token, implementation, ServiceScope.SINGLETON));
+  }
+
+  /**
+   * Add a class instantiated on every resolution
+   */
+  addTransient<T>(token: ServiceIdentifier<T>, implementation?: Implementation<T>): this {
+    return this.add(toClassProvider(token, implementation, ServiceScope.TRANSIENT));
+  }
+
+  /**
+   * Add a class instantiated once per scope (see `createScope()`)
+   */
+  addScoped<T>(token: ServiceIdentifier<T>, implementation?: Implementation<T>): this {
+    return this.add(toClassProvider(token, implementation, ServiceScope.REQUEST));
+  }
+
+  /**
+   * Add an existing instance
+   */
+  addInstance<T>(token: ServiceIdentifier<T>, instance: T): this {
+    return this.add({ type: 'value', token, useValue: instance });
+  }
+
+  /**
+   * Add a factory called with the resolved dependencies
+   */
+  addFactory<T>(token: ServiceIdentifier<T>, factory: (...deps: any[]) => T, deps?: ServiceIdentifier[]): this {
+    return this.add({ type: 'factory', token, useFactory: factory, ...(deps && { deps }) });
+  }
+
+  /**
+   * Add a provider as is
+   */
+  add<T>(provider: Provider<T>): this {
+    this.providers.push(provider);
+    return this;
+  }
+
+  /**
+   * Add a provider only if its token has not been added yet
+   */
+  tryAdd<T>(provider: Provider<T>): this {
+    return this.has(provider.token) ? this : this.add(provider);
+  }
+
+  /**
+   * Remove every provider of the token and add this one in its place
+   */
+  replace<T>(provider: Provider<T>): this {
+    this.remove(provider.token);
+    return this.add(provider);
+  }
+
+  /**
+   * Add every provider of another collection, in order
+   */
+  addCollection(collection: IServiceCollection): this {
+    for (const provider of collection.build()) {
+      this.add(provider);
+    }
+    return this;
+  }
+
+  /**
+   * Check if a provider has been added for the token
+   */
+  has(token: ServiceIdentifier): boolean {
+    return this.providers.some(provider => provider.token === token);
+  }
+
+  /**
+   * Remove every provider of the token
+   */
+  remove(token: ServiceIdentifier): boolean {
+    const count = this.providers.length;
+    this.providers = this.providers.filter(provider => provider.token !== token);
+    return this.providers.length !== count;
+  }
+
+  /**
+   * Return the providers in the order they were added
+   */
+  build(): Provider[] {
+    return [...this.providers];
+  }
+}
+
+function toClassProvider<T>(
+  token: ServiceIdentifier<T>,
+  implementation: Implementation<T> | undefined,
+  scope: ServiceScope
+): Provider<T> {
+  const useClass = implementation ?? (typeof token === 'function' ? token : undefined);
+  if (!useClass) {
+    throw new InvalidProviderError(`${getTokenName(token)} is not a class, so an implementation is required`, token);
+  }
+  return { type: 'class', token, useClass, scope };
+}
@@ -0,0 +1,16 @@
+// Explicit resource management support
+
+// Runtimes without Symbol.dispose/asyncDispose (including other realms of
+// Node.js 20) get the same registered symbols Node.js itself falls back to
+(Symbol as { dispose?: symbol }).dispose ??= Symbol.for('nodejs.dispose');
+(Symbol as { asyncDispose?: symbol }).asyncDispose ??= Symbol.for('nodejs.asyncDispose');
+
+/**
+ * The symbol of the method disposing an object, preferring Symbol.asyncDispose
+ */
+export function getDisposeSymbol(value: any): typeof Symbol.asyncDispose | typeof Symbol.dispose | undefined {
+  if (typeof value !== 'object' || value === null) return undefined;
+  if (typeof value[Symbol.asyncDispose] === 'function') return Symbol.asyncDispose;
+  if (typeof value[Symbol.dispose] === 'function') return Symbol.dispose;
+  return undefined;
+}
@@ -0,0 +1,226 @@
+// Graphviz DOT and Mermaid exporters for container dependency graphs
+
+import {
+  IContainer,
+  ServiceIdentifier,
+  ServiceRegistration,
+  getTokenName
+} from '../types';
+
+import { DependencyGraph } from '../types/advanced';
+
+import { findCycles, getProviderDependencies } from './graph';
+
+interface ExportCluster {
+  id: string;
+  label: string;
+  parent: ExportCluster | undefined;
+  registrations: ServiceRegistration[];
+  nodes: Map<ServiceIdentifier, ExportNode>;
+  children: ExportCluster[];
+}
+
+interface ExportNode {
+  id: string;
+  label: string;
+  missing: boolean;
+}
+
+interface ExportEdge {
+  from: string;
+  to: string;
+  cyclic: boolean;
+}
+
+interface ExportModel {
+  root: ExportCluster;
+  /**
+   * Nodes outside the exported hierarchy - registered in an ancestor of the
+   * exported container, or not registered at all
+   */
+  external: ExportNode[];
+  edges: ExportEdge[];
+}
+
+/**
+ * Render a container and its child containers as a Graphviz DOT digraph.
+ * Child containers become nested clusters and cycle edges are drawn in red.
+ */
+export function exportGraphToDot(container: IContainer): string {
+  const model = buildExportModel(container);
+  const lines = ['digraph Container {', '  rankdir=LR;', '  node [shape=box];'];
+
+  const renderCluster = (cluster: ExportCluster, indent: string): void => {
+    lines.push(`${indent}subgraph cluster_${cluster.id} {`);
+    lines.push(`${indent}  label="${escapeDot(cluster.label)}";`);
+    for (const node of cluster.nodes.values()) {
+      lines.push(`${indent}  ${node.id} [label="${escapeDot(node.label)}"];`);
+    }
+    cluster.children.forEach(child => renderCluster(child, `${indent}  `));
+    lines.push(`${indent}}`);
+  };
+
+  renderCluster(model.root, '  ');
+
+  for (const node of model.external) {
+    const style = node.missing ? ', style=dashed, color=red' : ', style=dotted';
+    lines.push(`  ${node.id} [label="${escapeDot(node.label)}"${style}];`);
+  }
+
+  for (const edge of model.edges) {
+    lines.push(`  ${edge.from} -> ${edge.to}${edge.cyclic ? ' [color=red, penwidth=2]' : ''};`);
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Render a container and its child containers as a Mermaid flowchart.
+ * Child containers become nested subgraphs and cycle edges are drawn in red.
+ */
+export function exportGraphToMermaid(container: IContainer): string {
+  const model = buildExportModel(container);
+  const lines = ['flowchart LR'];
+
+  const renderCluster = (cluster: ExportCluster, indent: string): void => {
+    lines.push(`${indent}subgraph ${cluster.id}["${escapeMermaid(cluster.label)}"]`);
+    for (const node of cluster.nodes.values()) {
+      lines.push(`${indent}  ${node.id}["${escapeMermaid(node.label)}"]`);
+    }
+    cluster.children.forEach(child => renderCluster(child, `${indent}  `));
+    lines.push(`${indent}end`);
+  };
+
+  renderCluster(model.root, '  ');
+
+  for (const node of model.external) {
+    lines.push(`  ${node.id}["${escapeMermaid(node.label)}"]${node.missing ? ':::missing' : ''}`);
+  }
+
+  model.edges.forEach(edge => lines.push(`  ${edge.from} --> ${edge.to}`));
+
+  const cyclicEdges = model.edges
+    .map((edge, index) => (edge.cyclic ? index : -1))
+    .filter(index => index >= 0);
+  if (cyclicEdges.length > 0) {
+    lines.push(`  linkStyle ${cyclicEdges.join(',')} stroke:red,stroke-width:2px`);
+  }
+
+  if (model.external.some(node => node.missing)) {
+    lines.push('  classDef missing stroke:red,stroke-dasharray:5 5');
+  }
+
+  return lines.join('\n');
+}
+
+function buildExportModel(container: IContainer): ExportModel {
+  let nextNodeId = 0;
+  const createNodeId = () => `n${nextNodeId++}`;
+
+  const buildCluster = (current: IContainer, id: string, label: string, parent?: ExportCluster): ExportCluster => {
+    const snapshot = current.snapshot();
+    const cluster: ExportCluster = {
+      id,
+      label,
+      parent,
+      registrations: snapshot.registrations,
+      nodes: new Map(),
+      children: []
+    };
+
+    for (const registration of snapshot.registrations) {
+      // Multi providers of one token are drawn as a single node
+      if (!cluster.nodes.has(registration.token)) {
+        cluster.nodes.set(registration.token, {
+          id: createNodeId(),
+          label: describeRegistration(registration),
+          missing: false
+        });
+      }
+    }
+
+    cluster.children = snapshot.childContainers.map((child, index) =>
+      buildCluster(child, `${id}_${index + 1}`, `${label} / child ${index + 1}`, cluster)
+    );
+    return cluster;
+  };
+
+  const root = buildCluster(container, 'container_0', 'Container');
+  const inherited = container.getParent()?.getDependencyGraph();
+  const external = new Map<ServiceIdentifier, ExportNode>();
+  const edges: ExportEdge[] = [];
+
+  // Resolve each dependency the way the container would: own registrations first, then ancestors
+  const findNode = (cluster: ExportCluster, token: ServiceIdentifier): ExportNode => {
+    for (let current: ExportCluster | undefined = cluster; current; current = current.parent) {
+      const node = current.nodes.get(token);
+      if (node) return node;
+    }
+
+    let node = external.get(token);
+    if (!node) {
+      const registration = inherited?.get(token)?.registration;
+      node = {
+        id: createNodeId(),
+        label: registration ? describeRegistration(registration) : `${getTokenName(token)}\n(missing)`,
+        missing: !registration
+      };
+      external.set(token, node);
+    }
+    return node;
+  };
+
+  const collectEdges = (cluster: ExportCluster): void => {
+    for (const registration of cluster.registrations) {
+      const from = cluster.nodes.get(registration.token)!;
+      for (const dependency of getProviderDependencies(registration.provider)) {
+        edges.push({ from: from.id, to: findNode(cluster, dependency.token).id, cyclic: false });
+      }
+    }
+    cluster.children.forEach(collectEdges);
+  };
+
+  collectEdges(root);
+  markCycleEdges(edges);
+
+  return { root, external: Array.from(external.values()), edges };
+}
+
+function markCycleEdges(edges: ExportEdge[]): void {
+  const graph: DependencyGraph = new Map();
+  for (const edge of edges) {
+    for (const id of [edge.from, edge.to]) {
+      if (!graph.has(id)) {
+        graph.set(id, { token: id, dependencies: new Set(), optionalDependencies: new Set(), lazyDependencies: new Set(), dependents: new Set(), depth: 0 });
+      }
+    }
+    graph.get(edge.from)!.dependencies.add(edge.to);
+    graph.get(edge.to)!.dependents.add(edge.from);
+  }
+
+  const cyclic = new Set<string>();
+  for (const cycle of findCycles(graph)) {
+    for (let i = 0; i < cycle.length - 1; i++) {
+      cyclic.add(`${String(cycle[i])}->${String(cycle[i + 1])}`);
+    }
+  }
+
+  edges.forEach(edge => {
+    edge.cyclic = cyclic.has(`${edge.from}->${edge.to}`);
+  });
+}
+
+function describeRegistration(registration: ServiceRegistration): string {
+  const scope = registration.options.scope || 'singleton';
+  const multi = registration.options.multi ? ' | multi' : '';
+  return `${getTokenName(registration.token)}\n${scope} | ${registration.provider.type}${multi}`;
+}
+
+function escapeDot(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function escapeMermaid(value: string): string {
+  return value.replace(/"/g, '#quot;').replace(/\n/g, '<br/>');
+}
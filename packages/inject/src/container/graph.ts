@@ -0,0 +1,260 @@
+// Dependency graph construction and validation
+
+import {
+  ServiceIdentifier,
+  ServiceScope,
+  Provider,
+  ServiceRegistration,
+  DependencyInfo,
+  isClassProvider,
+  isFactoryProvider,
+  isExistingProvider,
+  getTokenName
+} from '../types';
+
+import {
+  DependencyGraph,
+  DependencyNode,
+  ValidationIssue,
+  ValidationReport
+} from '../types/advanced';
+
+import { PERFORMANCE_CONSTANTS } from '../types/constants';
+
+import { getClassMetadata, getAllPropertyMetadata } from '../metadata';
+
+/**
+ * Relative lifetime of each scope - a service must not depend on a
+ * service with a shorter lifetime than its own
+ */
+const SCOPE_LIFETIMES: Record<ServiceScope, number> = {
+  [ServiceScope.SINGLETON]: 4,
+  [ServiceScope.CACHED]: 3,
+  [ServiceScope.REQUEST]: 2,
+  [ServiceScope.PROTOTYPE]: 1,
+  [ServiceScope.TRANSIENT]: 1
+};
+
+/**
+ * Check whether `dependency` would be captured by a longer-lived `dependent`
+ */
+export function isShorterLived(dependency: ServiceScope, dependent: ServiceScope): boolean {
+  return SCOPE_LIFETIMES[dependency] < SCOPE_LIFETIMES[dependent];
+}
+
+/**
+ * Constructor dependencies declared with @Injectable({ deps }) or a static `inject` tuple
+ */
+export function getConstructorDependencies(constructor: Function): ServiceIdentifier[] {
+  const metadata = getClassMetadata(constructor);
+  if (metadata?.dependencies) {
+    return metadata.dependencies;
+  }
+
+  // Fall back to a static `inject` tuple declared on the class
+  const staticInject = (constructor as { inject?: readonly ServiceIdentifier[] }).inject;
+  return Array.isArray(staticInject) ? [...staticInject] : [];
+}
+
+/**
+ * Dependencies of a provider, without instantiating anything.
+ * Property injections are declared when the class is defined.
+ */
+export function getProviderDependencies(provider: Provider): DependencyInfo[] {
+  if (isClassProvider(provider)) {
+    const constructorDependencies = getConstructorDependencies(provider.useClass)
+      .map((token, parameterIndex): DependencyInfo => ({ token, optional: false, parameterIndex }));
+
+    const propertyDependencies: DependencyInfo[] = [];
+    for (const [propertyKey, metadata] of getAllPropertyMetadata(provider.useClass.prototype) || []) {
+      if (metadata.inject && metadata.token) {
+        // An empty multi injection is valid, so it never counts as missing
+        propertyDependencies.push({
+          token: metadata.token,
+          optional: metadata.optional || metadata.multiple || false,
+          propertyKey,
+          ...(metadata.lazy && { lazy: true })
+        });
+      }
+    }
+
+    return [...constructorDependencies, ...propertyDependencies];
+  }
+
+  if (isFactoryProvider(provider)) {
+    return (provider.deps || []).map((token, parameterIndex) => ({ token, optional: false, parameterIndex }));
+  }
+
+  if (isExistingProvider(provider)) {
+    return [{ token: provider.useExisting, optional: false }];
+  }
+
+  return [];
+}
+
+/**
+ * Build the dependency graph of the given registrations.
+ * Tokens that are depended upon but not registered get a node without a registration;
+ * multi providers of one token share a node holding the first registration.
+ */
+export function buildDependencyGraph(registrations: Iterable<ServiceRegistration>): DependencyGraph {
+  const graph: DependencyGraph = new Map();
+
+  const getNode = (token: ServiceIdentifier): DependencyNode => {
+    let node = graph.get(token);
+    if (!node) {
+      node = {
+        token,
+        dependencies: new Set(),
+        optionalDependencies: new Set(),
+        lazyDependencies: new Set(),
+        dependents: new Set(),
+        depth: 0
+      };
+      graph.set(token, node);
+    }
+    return node;
+  };
+
+  for (const registration of registrations) {
+    const { token } = registration;
+    const node = getNode(token);
+    node.registration ??= registration;
+    for (const dependency of getProviderDependencies(registration.provider)) {
+      node.dependencies.add(dependency.token);
+      if (dependency.optional) {
+        node.optionalDependencies.add(dependency.token);
+      }
+      if (dependency.lazy) {
+        node.lazyDependencies.add(dependency.token);
+      }
+      getNode(dependency.token).dependents.add(token);
+    }
+  }
+
+  computeDepths(graph);
+  return graph;
+}
+
+/**
+ * Validate a dependency graph, reporting missing tokens, cycles,
+ * scope violations and excessive resolution depth
+ */
+export function validateDependencyGraph(graph: DependencyGraph): ValidationReport {
+  const issues: ValidationIssue[] = [];
+
+  for (const node of graph.values()) {
+    const scope = node.registration?.options.scope;
+
+    for (const dependency of node.dependencies) {
+      const dependencyNode = graph.get(dependency);
+      if (!dependencyNode?.registration) {
+        if (!node.optionalDependencies.has(dependency)) {
+          issues.push({
+            type: 'missing',
+            token: dependency,
+            chain: [node.token, dependency],
+            message: `Missing dependency ${getTokenName(dependency)} in ${getTokenName(node.token)}`
+          });
+        }
+        continue;
+      }
+
+      const dependencyScope = dependencyNode.registration.options.scope;
+      if (scope && dependencyScope && isShorterLived(dependencyScope, scope)) {
+        issues.push({
+          type: 'scope',
+          token: node.token,
+          chain: [node.token, dependency],
+          message: `${scope} service ${getTokenName(node.token)} depends on ${dependencyScope} service ${getTokenName(dependency)}`
+        });
+      }
+    }
+
+    if (node.depth > PERFORMANCE_CONSTANTS.MAX_RESOLUTION_DEPTH) {
+      issues.push({
+        type: 'depth',
+        token: node.token,
+        chain: [node.token],
+        message: `Resolution depth of ${getTokenName(node.token)} is ${node.depth}, exceeding ${PERFORMANCE_CONSTANTS.MAX_RESOLUTION_DEPTH}`
+      });
+    }
+  }
+
+  for (const cycle of findCycles(graph)) {
+    issues.push({
+      type: 'circular',
+      token: cycle[0]!,
+      chain: cycle,
+      message: `Circular dependency detected: ${cycle.map(getTokenName).join(' -> ')}`
+    });
+  }
+
+  return { valid: issues.length === 0, issues, graph };
+}
+
+/**
+ * Find every cycle reachable in the graph, each reported once with its full chain
+ */
+export function findCycles(graph: DependencyGraph): ServiceIdentifier[][] {
+  const cycles: ServiceIdentifier[][] = [];
+  const visited = new Set<ServiceIdentifier>();
+  const stack: ServiceIdentifier[] = [];
+  const onStack = new Set<ServiceIdentifier>();
+
+  const visit = (token: ServiceIdentifier): void => {
+    visited.add(token);
+    stack.push(token);
+    onStack.add(token);
+
+    const node = graph.get(token);
+    for (const dependency of node?.dependencies || []) {
+      if (node?.lazyDependencies.has(dependency)) continue;
+      if (onStack.has(dependency)) {
+        cycles.push([...stack.slice(stack.indexOf(dependency)), dependency]);
+      } else if (!visited.has(dependency)) {
+        visit(dependency);
+      }
+    }
+
+    stack.pop();
+    onStack.delete(token);
+  };
+
+  for (const token of graph.keys()) {
+    if (!visited.has(token)) {
+      visit(token);
+    }
+  }
+
+  return cycles;
+}
+
+/**
+ * Depth is the length of the longest dependency chain below a node,
+ * ignoring edges that close a cycle
+ */
+function computeDepths(graph: DependencyGraph): void {
+  const done = new Set<ServiceIdentifier>();
+  const inProgress = new Set<ServiceIdentifier>();
+
+  const depthOf = (node: DependencyNode): number => {
+    if (done.has(node.token)) return node.depth;
+    inProgress.add(node.token);
+
+    let depth = 0;
+    for (const dependency of node.dependencies) {
+      const dependencyNode = graph.get(dependency);
+      if (dependencyNode && !inProgress.has(dependency)) {
+        depth = Math.max(depth, depthOf(dependencyNode) + 1);
+      }
+    }
+
+    inProgress.delete(node.token);
+    done.add(node.token);
+    node.depth = depth;
+    return depth;
+  };
+
+  graph.forEach(node => depthOf(node));
+}
@@ -1,4 +1,8 @@
 // Container module exports
 
 export { Container } from './Container';
-export { ContainerFactory } from './ContainerFactory';
\ No newline at end of file
+export { ContainerFactory } from './ContainerFactory';
+export { ServiceCollection } from './ServiceCollection';
+export { exportGraphToDot, exportGraphToMermaid } from './exporters';
+export { isServiceProxy } from './lazy';
+export { disposeOnSignals } from './shutdown';
@@ -0,0 +1,86 @@
+// Method interception for AOP support
+
+import { ServiceIdentifier } from '../types';
+import { IInterceptor, InvocationContext } from '../types/advanced';
+
+/**
+ * Names of the methods an instance inherits from its class hierarchy
+ */
+export function getMethodNames(instance: object): Array<string | symbol> {
+  const names = new Set<string | symbol>();
+
+  for (
+    let prototype = Object.getPrototypeOf(instance);
+    prototype && prototype !== Object.prototype;
+    prototype = Object.getPrototypeOf(prototype)
+  ) {
+    for (const name of Reflect.ownKeys(prototype)) {
+      if (name === 'constructor') continue;
+      // Accessors are left alone, only plain methods are intercepted
+      const descriptor = Object.getOwnPropertyDescriptor(prototype, name);
+      if (typeof descriptor?.value === 'function') {
+        names.add(name);
+      }
+    }
+  }
+
+  return Array.from(names);
+}
+
+/**
+ * Replace each planned method with an own property running the
+ * interceptor chain around the original implementation
+ */
+export function interceptMethods(
+  instance: object,
+  token: ServiceIdentifier,
+  plan: Map<string | symbol, IInterceptor[]>
+): void {
+  for (const [method, interceptors] of plan) {
+    const original = (instance as Record<string | symbol, unknown>)[method];
+    if (typeof original !== 'function' || interceptors.length === 0) continue;
+
+    Object.defineProperty(instance, method, {
+      configurable: true,
+      writable: true,
+      enumerable: false,
+      value: (...args: any[]) => invoke(instance, token, method, original, interceptors, args)
+    });
+  }
+}
+
+function invoke(
+  target: object,
+  token: ServiceIdentifier,
+  method: string | symbol,
+  original: Function,
+  interceptors: IInterceptor[],
+  args: any[]
+): unknown {
+  // Arguments are shared by every level so a replacement reaches the method
+  const state = { args };
+
+  // Each level gets its own proceed() so an interceptor may call it again (e.g. retries)
+  const call = (index: number): unknown => {
+    const interceptor = interceptors[index];
+    if (!interceptor) {
+      return original.apply(target, state.args);
+    }
+
+    const invocation: InvocationContext = {
+      target,
+      token,
+      method,
+      get args() {
+        return state.args;
+      },
+      set args(value: any[]) {
+        state.args = value;
+      },
+      proceed: () => call(index + 1)
+    };
+    return interceptor.intercept(invocation);
+  };
+
+  return call(0);
+}
@@ -0,0 +1,85 @@
+// Lazy service proxies
+
+import { ServiceIdentifier, IContainer, CircularDependencyError } from '../types';
+import { ServiceProxy } from '../types/advanced';
+
+/**
+ * Tokens whose lazy proxies are resolving. Each proxy resolves with a fresh
+ * resolution context, so a service reaching its own lazy proxy while being
+ * created would otherwise recurse without hitting cycle detection.
+ */
+const resolvingTokens = new Set<ServiceIdentifier>();
+
+/**
+ * Create a transparent proxy that resolves the real service on first use.
+ * The ServiceProxy marker fields can be read without instantiating it.
+ */
+export function createLazyProxy<T>(token: ServiceIdentifier<T>, container: IContainer, resolve: () => T): T {
+  let instance: T | undefined;
+  let resolved = false;
+
+  const target = (): any => {
+    if (!resolved) {
+      if (resolvingTokens.has(token)) {
+        throw new CircularDependencyError([token, token], token);
+      }
+      resolvingTokens.add(token);
+      try {
+        instance = resolve();
+      } finally {
+        resolvingTokens.delete(token);
+      }
+      resolved = true;
+    }
+    return instance;
+  };
+
+  const markers: ServiceProxy<T> = {
+    __isProxy: true,
+    __target: token,
+    __container: container
+  };
+
+  return new Proxy({}, {
+    get(_, property) {
+      if (property in markers) {
+        return markers[property as keyof ServiceProxy<T>];
+      }
+
+      const real = target();
+      const value = Reflect.get(real, property, real);
+      // Methods run against the real instance so private fields keep working
+      return typeof value === 'function' ? value.bind(real) : value;
+    },
+    set(_, property, value) {
+      return Reflect.set(target(), property, value);
+    },
+    has(_, property) {
+      return property in markers || Reflect.has(target(), property);
+    },
+    deleteProperty(_, property) {
+      return Reflect.deleteProperty(target(), property);
+    },
+    ownKeys() {
+      return Reflect.ownKeys(target());
+    },
+    getOwnPropertyDescriptor(_, property) {
+      const descriptor = Reflect.getOwnPropertyDescriptor(target(), property);
+      // The proxy target is empty, so every reported property must be configurable
+      return descriptor && { ...descriptor, configurable: true };
+    },
+    defineProperty(_, property, descriptor) {
+      return Reflect.defineProperty(target(), property, descriptor);
+    },
+    getPrototypeOf() {
+      return Reflect.getPrototypeOf(target());
+    }
+  }) as T;
+}
+
+/**
+ * Check whether a value is a lazy proxy created by the container
+ */
+export function isServiceProxy(value: unknown): value is ServiceProxy<unknown> {
+  return typeof value === 'object' && value !== null && (value as ServiceProxy<unknown>).__isProxy === true;
+}
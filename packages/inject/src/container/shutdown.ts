@@ -0,0 +1,52 @@
+// Process signal integration
+
+import { IContainer } from '../types';
+import { ShutdownOptions } from '../types/advanced';
+
+/**
+ * The part of Node's process object used here, so the public types do not depend on @types/node
+ */
+interface SignalProcess {
+  on(signal: string, listener: () => void): unknown;
+  off(signal: string, listener: () => void): unknown;
+  exit(code: number): void;
+}
+
+/**
+ * Dispose the root of the container's hierarchy when the process receives
+ * SIGINT or SIGTERM. Returns a function that removes the signal listeners.
+ */
+export function disposeOnSignals(container: IContainer, options: ShutdownOptions = {}): () => void {
+  const {
+    signals = ['SIGINT', 'SIGTERM'],
+    exit = true,
+    onError = (error: unknown) => console.error(error)
+  } = options;
+
+  // Outside Node there are no signals to listen to
+  const process = (globalThis as { process?: SignalProcess }).process;
+  if (!process) return () => undefined;
+
+  let root = container;
+  for (let parent = root.getParent(); parent; parent = parent.getParent()) {
+    root = parent;
+  }
+
+  const remove = () => signals.forEach(signal => process.off(signal, handler));
+  const handler = () => {
+    // A second signal during shutdown falls through to the default behavior
+    remove();
+    root.dispose().then(
+      () => {
+        if (exit) process.exit(0);
+      },
+      error => {
+        onError(error);
+        if (exit) process.exit(1);
+      }
+    );
+  };
+
+  signals.forEach(signal => process.on(signal, handler));
+  return remove;
+}
@@ -0,0 +1,117 @@
+// Resolution statistics for performance monitoring
+
+import { ServiceIdentifier, getTokenName } from '../types';
+import { ContainerStats, HistogramBucket, ServiceStats } from '../types/advanced';
+import { PERFORMANCE_CONSTANTS } from '../types/constants';
+
+const BUCKET_BOUNDS = [...PERFORMANCE_CONSTANTS.CREATION_TIME_BUCKETS_MS, Infinity];
+
+/**
+ * Running totals of one token; creation times are kept as histogram counts only
+ */
+interface TokenCounters {
+  instancesCreated: number;
+  cacheHits: number;
+  timedCreations: number;
+  totalCreationTimeMs: number;
+  maxCreationTimeMs: number;
+  histogram: number[];
+}
+
+/**
+ * Collects resolution counts and creation times of one container
+ */
+export class StatsCollector {
+  private readonly counters = new Map<ServiceIdentifier, TokenCounters>();
+  private cacheMisses = 0;
+  private evictions = 0;
+
+  constructor(readonly enabled: boolean) {}
+
+  recordCacheHit(token: ServiceIdentifier): void {
+    if (!this.enabled) return;
+    this.getCounters(token).cacheHits++;
+  }
+
+  recordCreation(token: ServiceIdentifier, cached: boolean): void {
+    if (!this.enabled) return;
+    this.getCounters(token).instancesCreated++;
+    if (cached) {
+      this.cacheMisses++;
+    }
+  }
+
+  recordCreationTime(token: ServiceIdentifier, durationMs: number): void {
+    if (!this.enabled) return;
+    const counters = this.getCounters(token);
+    counters.timedCreations++;
+    counters.totalCreationTimeMs += durationMs;
+    counters.maxCreationTimeMs = Math.max(counters.maxCreationTimeMs, durationMs);
+    counters.histogram[BUCKET_BOUNDS.findIndex(bound => durationMs <= bound)]!++;
+  }
+
+  recordEviction(): void {
+    if (!this.enabled) return;
+    this.evictions++;
+  }
+
+  /**
+   * Current statistics; registration and cache sizes are supplied by the container
+   */
+  collect(registrations: number, cachedInstances: number): ContainerStats {
+    const services: ServiceStats[] = Array.from(this.counters, ([token, counters]) => ({
+      token,
+      name: getTokenName(token),
+      resolutions: counters.instancesCreated + counters.cacheHits,
+      instancesCreated: counters.instancesCreated,
+      cacheHits: counters.cacheHits,
+      totalCreationTimeMs: counters.totalCreationTimeMs,
+      averageCreationTimeMs: counters.timedCreations > 0 ? counters.totalCreationTimeMs / counters.timedCreations : 0,
+      maxCreationTimeMs: counters.maxCreationTimeMs,
+      creationTimeHistogram: toBuckets(counters.histogram)
+    }));
+
+    const cacheHits = services.reduce((sum, service) => sum + service.cacheHits, 0);
+    const lookups = cacheHits + this.cacheMisses;
+    const histogram = BUCKET_BOUNDS.map((_, index) =>
+      Array.from(this.counters.values()).reduce((sum, counters) => sum + (counters.histogram[index] ?? 0), 0)
+    );
+
+    return {
+      timestamp: new Date(),
+      registrations,
+      cachedInstances,
+      resolutions: services.reduce((sum, service) => sum + service.resolutions, 0),
+      cacheHits,
+      cacheMisses: this.cacheMisses,
+      cacheHitRatio: lookups > 0 ? cacheHits / lookups : 0,
+      evictions: this.evictions,
+      creationTimeHistogram: toBuckets(histogram),
+      services: [...services].sort((a, b) => b.resolutions - a.resolutions),
+      slowestConstructors: services
+        .filter(service => service.maxCreationTimeMs > 0)
+        .sort((a, b) => b.maxCreationTimeMs - a.maxCreationTimeMs)
+        .slice(0, PERFORMANCE_CONSTANTS.SLOWEST_CONSTRUCTORS_LIMIT)
+    };
+  }
+
+  private getCounters(token: ServiceIdentifier): TokenCounters {
+    let counters = this.counters.get(token);
+    if (!counters) {
+      counters = {
+        instancesCreated: 0,
+        cacheHits: 0,
+        timedCreations: 0,
+        totalCreationTimeMs: 0,
+        maxCreationTimeMs: 0,
+        histogram: BUCKET_BOUNDS.map(() => 0)
+      };
+      this.counters.set(token, counters);
+    }
+    return counters;
+  }
+}
+
+function toBuckets(counts: number[]): HistogramBucket[] {
+  return BUCKET_BOUNDS.map((upperBoundMs, index) => ({ upperBoundMs, count: counts[index] ?? 0 }));
+}
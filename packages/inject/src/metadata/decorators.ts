@@ -2,43 +2,187 @@
 
 import {
   setClassMetadata,
+  getClassMetadata,
   setPropertyMetadata,
+  setDeclaredPropertyMetadata,
   setMethodMetadata,
+  getMethodMetadata,
   createMetadataKey,
-  type MetadataKey
+  registerInjectable,
+  type MetadataKey,
+  type PropertyMetadata
 } from './index';
+import type { ServiceIdentifier, InjectionConstraints, Provider } from '../types';
+import type { DependencyArray, ModuleMetadata, IInterceptor } from '../types/advanced';
+
+export type InjectableScope = 'singleton' | 'prototype' | 'transient' | 'request';
+
+/**
+ * Options for the @Injectable decorator
+ */
+export interface InjectableOptions<TDeps extends readonly ServiceIdentifier[] = readonly ServiceIdentifier[]> {
+  scope?: InjectableScope;
+  /**
+   * Constructor dependencies, in parameter order
+   */
+  deps?: TDeps;
+  /**
+   * Record the class in the global registry bound by `container.scan()`
+   */
+  discoverable?: boolean;
+  /**
+   * Token the class is registered under when discovered, the class itself by default
+   */
+  token?: ServiceIdentifier;
+  /**
+   * Tags used by scan filters and `resolveByTag()`
+   */
+  tags?: string[];
+  /**
+   * Package name used by scan filters
+   */
+  package?: string;
+}
+
+/**
+ * Constructor type accepted by @Injectable - when `deps` is a tuple the
+ * constructor parameters must match the resolved dependency types
+ */
+export type InjectableConstructor<TDeps extends readonly ServiceIdentifier[]> =
+  number extends TDeps['length']
+    ? new (...args: any[]) => any
+    : new (...args: DependencyArray<TDeps>) => any;
+
+/**
+ * Class with a static `inject` tuple, checked the same way as `deps`.
+ * @Injectable() applies the check itself; classes without it can use
+ *
+ *   ReportService satisfies StaticInjectConstructor<typeof ReportService.inject>;
+ */
+export type StaticInjectConstructor<TDeps extends readonly ServiceIdentifier[]> =
+  InjectableConstructor<TDeps> & { readonly inject: TDeps };
+
+/**
+ * Constraint @Injectable adds for classes declaring a static `inject` tuple
+ */
+type CheckedStaticInject<T> =
+  T extends { readonly inject: infer TDeps extends readonly ServiceIdentifier[] }
+    ? StaticInjectConstructor<TDeps>
+    : unknown;
 
 /**
  * Marks a class as injectable for dependency injection
+ *
+ * @example
+ * ```typescript
+ * @Injectable({ deps: [DatabaseService, CONFIG] })
+ * class UserService {
+ *   constructor(private db: DatabaseService, private config: Config) {}
+ * }
+ * ```
  */
-export function Injectable(scope: 'singleton' | 'prototype' | 'transient' = 'singleton') {
-  return function <T extends new (...args: any[]) => any>(
-    target: T,
+export function Injectable<const TDeps extends readonly ServiceIdentifier[] = readonly ServiceIdentifier[]>(
+  scopeOrOptions: InjectableScope | InjectableOptions<TDeps> = 'singleton'
+) {
+  const options = typeof scopeOrOptions === 'string' ? { scope: scopeOrOptions } : scopeOrOptions;
+
+  return function <T extends InjectableConstructor<TDeps>>(
+    target: T & CheckedStaticInject<T>,
     context: ClassDecoratorContext
   ): T {
     setClassMetadata(target, {
       injectable: true,
-      scope
+      scope: options.scope || 'singleton',
+      ...(options.deps && { dependencies: [...options.deps] })
     });
+
+    if (options.discoverable) {
+      registerInjectable({
+        target,
+        token: options.token ?? target,
+        scope: options.scope || 'singleton',
+        tags: options.tags || [],
+        ...(options.package !== undefined && { package: options.package })
+      });
+    }
     
     return target;
   };
 }
 
+/**
+ * Options for the @Inject decorator
+ */
+export interface InjectOptions extends InjectionConstraints {
+  optional?: boolean;
+  /**
+   * Inject a proxy that resolves the dependency on first member access,
+   * which also lets two services reference each other
+   */
+  lazy?: boolean;
+}
+
 /**
  * Marks a property for dependency injection
+ *
+ * @example
+ * ```typescript
+ * class ReportService {
+ *   @Inject(Cache, { named: 'primary' })
+ *   private cache!: Cache;
+ *
+ *   @Inject(AUDIT_LOG, true)
+ *   private audit?: AuditLog;
+ * }
+ * ```
  */
-export function Inject(token?: MetadataKey | string, optional: boolean = false) {
+export function Inject(token?: ServiceIdentifier, optionsOrOptional: boolean | InjectOptions = false) {
+  const { optional = false, named, tagged, lazy } =
+    typeof optionsOrOptional === 'boolean' ? { optional: optionsOrOptional } : optionsOrOptional;
+
   return function (
     target: undefined,
     context: ClassFieldDecoratorContext | ClassAccessorDecoratorContext
   ) {
+    const metadata: PropertyMetadata = {
+      token,
+      optional,
+      inject: true,
+      ...(lazy && { lazy }),
+      ...(named !== undefined && { named }),
+      ...(tagged && { tagged })
+    };
+
+    // Declared up front for validation and scope checks; the initializer
+    // covers compilers that do not provide context.metadata
+    setDeclaredPropertyMetadata(context.metadata, context.name, metadata);
     context.addInitializer(function (this: any) {
-      setPropertyMetadata(this.constructor.prototype, context.name, {
-        token,
-        optional,
-        inject: true
-      });
+      setPropertyMetadata(this.constructor.prototype, context.name, metadata);
+    });
+  };
+}
+
+/**
+ * Injects every provider registered for a token with `multi: true`
+ *
+ * @example
+ * ```typescript
+ * class PluginHost {
+ *   @InjectAll(PLUGIN)
+ *   plugins!: Plugin[];
+ * }
+ * ```
+ */
+export function InjectAll(token: ServiceIdentifier) {
+  return function (
+    target: undefined,
+    context: ClassFieldDecoratorContext | ClassAccessorDecoratorContext
+  ) {
+    const metadata: PropertyMetadata = { token, inject: true, multiple: true };
+
+    setDeclaredPropertyMetadata(context.metadata, context.name, metadata);
+    context.addInitializer(function (this: any) {
+      setPropertyMetadata(this.constructor.prototype, context.name, metadata);
     });
   };
 }
@@ -60,7 +204,7 @@ export function Singleton<T extends new (...args: any[]) => any>(
 /**
  * Sets a custom scope for a class
  */
-export function Scope(scope: 'singleton' | 'prototype' | 'transient') {
+export function Scope(scope: InjectableScope) {
   return function <T extends new (...args: any[]) => any>(
     target: T,
     context: ClassDecoratorContext
@@ -106,17 +250,100 @@ export function PreDestroy(
 }
 
 /**
- * Provides a service with a specific token
+ * Wraps the methods of a class, or a single method, with interceptors
+ * resolved from the container. The first interceptor listed is the outermost.
+ *
+ * @example
+ * ```typescript
+ * @Intercept(LoggingInterceptor)
+ * class PaymentService {
+ *   @Intercept(RetryInterceptor, TransactionInterceptor)
+ *   async charge(amount: number) {}
+ * }
+ * ```
+ */
+export function Intercept(...interceptors: ServiceIdentifier<IInterceptor>[]) {
+  // Method initializers run for every instance; record once per prototype
+  const recorded = new WeakSet<object>();
+
+  return function (
+    target: Function,
+    context: ClassDecoratorContext | ClassMethodDecoratorContext
+  ): void {
+    if (context.kind === 'class') {
+      const existing = getClassMetadata(target)?.interceptors || [];
+      setClassMetadata(target, {
+        interceptors: [...interceptors, ...existing]
+      });
+      return;
+    }
+
+    context.addInitializer(function (this: any) {
+      const prototype = this.constructor.prototype;
+      if (recorded.has(prototype)) return;
+      recorded.add(prototype);
+
+      const existing = getMethodMetadata(prototype, context.name)?.interceptors || [];
+      setMethodMetadata(prototype, context.name, {
+        interceptors: [...interceptors, ...existing]
+      });
+    });
+  };
+}
+
+/**
+ * Declares a provider the class needs; it is registered along with the class
+ * unless the container (or a parent) already binds the token
+ *
+ * @example
+ * ```typescript
+ * @Provide(RETRY_LIMIT, 3)
+ * @Provide({ type: 'class', token: HTTP_CLIENT, useClass: FetchClient })
+ * @Provide({ type: 'factory', token: BASE_URL, useFactory: (config: Config) => config.apiUrl, deps: [Config] })
+ * class ApiClient {}
+ * ```
  */
-export function Provide(token: MetadataKey | string, value: any) {
+export function Provide(provider: Provider): <T extends new (...args: any[]) => any>(target: T, context: ClassDecoratorContext) => T;
+export function Provide(token: ServiceIdentifier, value: any): <T extends new (...args: any[]) => any>(target: T, context: ClassDecoratorContext) => T;
+export function Provide(tokenOrProvider: ServiceIdentifier | Provider, ...value: [any?]) {
+  const provider: Provider = value.length > 0
+    ? { type: 'value', token: tokenOrProvider as ServiceIdentifier, useValue: value[0] }
+    : tokenOrProvider as Provider;
+
   return function <T extends new (...args: any[]) => any>(
     target: T,
     context: ClassDecoratorContext
   ): T {
-    const providers = [{ token, value }];
+    // Decorators run bottom-up; prepend to keep declaration order
+    const existing = getClassMetadata(target)?.providers || [];
+    setClassMetadata(target, {
+      providers: [provider, ...existing]
+    });
     
+    return target;
+  };
+}
+
+/**
+ * Declares a module grouping providers, imported modules and exported tokens
+ *
+ * @example
+ * ```typescript
+ * @Module({
+ *   imports: [DatabaseModule],
+ *   providers: [UserService, UserRepository],
+ *   exports: [UserService]
+ * })
+ * class UserModule {}
+ * ```
+ */
+export function Module(metadata: ModuleMetadata) {
+  return function <T extends new (...args: any[]) => any>(
+    target: T,
+    context: ClassDecoratorContext
+  ): T {
     setClassMetadata(target, {
-      providers
+      module: metadata
     });
     
     return target;
@@ -1,34 +1,95 @@
 // Metadata collection system for Modern Decorators
 
+import type { ServiceIdentifier, Provider } from '../types';
+import type { ModuleMetadata } from '../types/advanced';
+
 export interface MetadataKey<T = any> {
   readonly key: symbol;
   readonly description: string;
+  /**
+   * Phantom field carrying the service type for inference (never set at runtime)
+   */
+  readonly __type?: T;
 }
 
 export interface ClassMetadata {
-  dependencies?: Array<MetadataKey | string>;
-  scope?: 'singleton' | 'prototype' | 'transient';
+  dependencies?: ServiceIdentifier[];
+  scope?: 'singleton' | 'prototype' | 'transient' | 'request';
   injectable?: boolean;
-  providers?: Array<{ token: MetadataKey | string; value: any }>;
+  /**
+   * Providers declared with @Provide, registered along with the class
+   */
+  providers?: Provider[];
+  module?: ModuleMetadata;
+  /**
+   * Interceptor tokens applied to every method, outermost first
+   */
+  interceptors?: ServiceIdentifier[];
 }
 
 export interface PropertyMetadata {
-  token?: MetadataKey | string | undefined;
+  token?: ServiceIdentifier | undefined;
   optional?: boolean;
+  named?: string;
+  tagged?: Record<string, unknown>;
   inject?: boolean;
+  /**
+   * Inject a proxy resolving the dependency on first use
+   */
+  lazy?: boolean;
+  /**
+   * Inject every multi provider of the token as an array
+   */
+  multiple?: boolean;
+}
+
+/**
+ * A class recorded in the global registry by `@Injectable({ discoverable: true })`
+ */
+export interface InjectableEntry {
+  target: new (...args: any[]) => any;
+  token: ServiceIdentifier;
+  scope: NonNullable<ClassMetadata['scope']>;
+  tags: string[];
+  package?: string;
+}
+
+/**
+ * Selects registry entries; an entry must carry one of the listed tags and
+ * belong to one of the listed packages, when given
+ */
+export interface InjectableFilter {
+  tags?: string[];
+  packages?: string[];
 }
 
 export interface MethodMetadata {
   parameterTypes?: Array<MetadataKey | string>;
   returnType?: MetadataKey | string;
   lifecycle?: 'postConstruct' | 'preDestroy';
+  /**
+   * Interceptor tokens applied to this method, outermost first
+   */
+  interceptors?: ServiceIdentifier[];
 }
 
+// Without Symbol.metadata decorators get no context.metadata; the registered
+// symbol is the one TypeScript's helpers and common polyfills agree on
+const metadataSymbol = (Symbol as { metadata?: symbol }).metadata ??= Symbol.for('Symbol.metadata');
+
+type DecoratorMetadataRecord = Record<PropertyKey, unknown>;
+
+// Key of the property injections recorded in a class's decorator metadata
+const propertyInjectionsKey = Symbol('propertyInjections');
+
 // Memory-efficient storage using WeakMap
 const classMetadataStore = new WeakMap<Function, ClassMetadata>();
 const propertyMetadataStore = new WeakMap<object, Map<string | symbol, PropertyMetadata>>();
 const methodMetadataStore = new WeakMap<object, Map<string | symbol, MethodMetadata>>();
 
+// Discoverable classes stay referenced for the lifetime of the process, like their modules
+const injectableRegistry = new Map<Function, InjectableEntry>();
+
 /**
  * Creates a metadata key for type-safe metadata operations
  */
@@ -72,6 +133,29 @@ export function setPropertyMetadata(
   targetMetadata.set(propertyKey, { ...existing, ...metadata });
 }
 
+/**
+ * Sets metadata for a class property while the class is being defined, in the
+ * decorator metadata object, so it is known before any instance exists.
+ * Subclasses start from a copy of their base class's properties.
+ */
+export function setDeclaredPropertyMetadata(
+  decoratorMetadata: DecoratorMetadataRecord | undefined,
+  propertyKey: string | symbol,
+  metadata: PropertyMetadata
+): void {
+  if (!decoratorMetadata) return;
+
+  let properties = Object.hasOwn(decoratorMetadata, propertyInjectionsKey)
+    ? decoratorMetadata[propertyInjectionsKey] as Map<string | symbol, PropertyMetadata>
+    : undefined;
+  if (!properties) {
+    properties = new Map(decoratorMetadata[propertyInjectionsKey] as Map<string | symbol, PropertyMetadata> | undefined);
+    decoratorMetadata[propertyInjectionsKey] = properties;
+  }
+
+  properties.set(propertyKey, { ...properties.get(propertyKey), ...metadata });
+}
+
 /**
  * Gets metadata for a class property
  */
@@ -79,8 +163,7 @@ export function getPropertyMetadata(
   target: object,
   propertyKey: string | symbol
 ): PropertyMetadata | undefined {
-  const targetMetadata = propertyMetadataStore.get(target);
-  return targetMetadata?.get(propertyKey);
+  return getAllPropertyMetadata(target)?.get(propertyKey);
 }
 
 /**
@@ -113,10 +196,22 @@ export function getMethodMetadata(
 }
 
 /**
- * Gets all property metadata for a class
+ * Gets all property metadata for a class, both declared at class definition
+ * and recorded when instances were created
  */
 export function getAllPropertyMetadata(target: object): Map<string | symbol, PropertyMetadata> | undefined {
-  return propertyMetadataStore.get(target);
+  const declared = getDeclaredPropertyMetadata(target);
+  const recorded = propertyMetadataStore.get(target);
+  if (!declared || !recorded) return declared ?? recorded;
+  return new Map([...declared, ...recorded]);
+}
+
+function getDeclaredPropertyMetadata(prototype: object): Map<string | symbol, PropertyMetadata> | undefined {
+  const constructor = (prototype as { constructor?: unknown }).constructor;
+  if (typeof constructor !== 'function') return undefined;
+
+  const decoratorMetadata = (constructor as unknown as Record<symbol, DecoratorMetadataRecord | undefined>)[metadataSymbol];
+  return decoratorMetadata?.[propertyInjectionsKey] as Map<string | symbol, PropertyMetadata> | undefined;
 }
 
 /**
@@ -137,8 +232,7 @@ export function hasClassMetadata(target: Function): boolean {
  * Checks if a property has metadata
  */
 export function hasPropertyMetadata(target: object, propertyKey: string | symbol): boolean {
-  const targetMetadata = propertyMetadataStore.get(target);
-  return targetMetadata?.has(propertyKey) ?? false;
+  return getAllPropertyMetadata(target)?.has(propertyKey) ?? false;
 }
 
 /**
@@ -156,4 +250,37 @@ export function clearClassMetadata(target: Function): void {
   classMetadataStore.delete(target);
   propertyMetadataStore.delete(target.prototype);
   methodMetadataStore.delete(target.prototype);
-}
\ No newline at end of file
+
+  const decoratorMetadata = (target as unknown as Record<symbol, DecoratorMetadataRecord | undefined>)[metadataSymbol];
+  if (decoratorMetadata && Object.hasOwn(decoratorMetadata, propertyInjectionsKey)) {
+    delete decoratorMetadata[propertyInjectionsKey];
+  }
+}
+
+/**
+ * Records a class in the global registry of discoverable services
+ */
+export function registerInjectable(entry: InjectableEntry): void {
+  injectableRegistry.set(entry.target, entry);
+}
+
+/**
+ * Gets the discoverable services matching the filter, in decoration order
+ */
+export function getRegisteredInjectables(filter: InjectableFilter = {}): InjectableEntry[] {
+  return [...injectableRegistry.values()].filter(entry =>
+    (!filter.tags || entry.tags.some(tag => filter.tags!.includes(tag))) &&
+    (!filter.packages || (entry.package !== undefined && filter.packages.includes(entry.package)))
+  );
+}
+
+/**
+ * Removes a class, or every class, from the registry (useful for testing)
+ */
+export function clearInjectableRegistry(target?: Function): void {
+  if (target) {
+    injectableRegistry.delete(target);
+  } else {
+    injectableRegistry.clear();
+  }
+}
@@ -1,6 +1,7 @@
 // Advanced types and utilities for enhanced type safety
 
-import type { ServiceIdentifier, Provider, ServiceScope } from './index';
+import type { ServiceIdentifier, Provider, ServiceScope, ServiceOptions, ServiceRegistration, InferServiceType } from './index';
+import { ContainerError } from './index';
 
 /**
  * Conditional types for improved decorator type inference
@@ -25,7 +26,7 @@ export type ExtractConstructorParams<T extends new (...args: any[]) => any> =
  * Type-safe dependency array for factory providers
  */
 export type DependencyArray<T extends readonly ServiceIdentifier[]> = {
-  readonly [K in keyof T]: T[K] extends ServiceIdentifier<infer U> ? U : any;
+  readonly [K in keyof T]: T[K] extends ServiceIdentifier ? InferServiceType<T[K]> : any;
 };
 
 /**
@@ -48,9 +49,7 @@ export interface TypedFactoryProvider<T, TDeps extends readonly ServiceIdentifie
 /**
  * Service registration with compile-time type checking
  */
-export type TypedServiceRegistration<T> = {
-  [K in keyof Provider<T>]: Provider<T>[K];
-} & {
+export type TypedServiceRegistration<T> = Provider<T> & {
   __serviceType?: T; // Phantom type for compile-time checking
 };
 
@@ -69,9 +68,10 @@ export interface ITypedContainer {
   resolveTyped<T>(token: ServiceIdentifier<T>): T;
   
   /**
-   * Register a factory with typed dependencies
+   * Register a factory with typed dependencies; `deps` is inferred as a tuple,
+   * so each factory parameter takes the type its token resolves to
    */
-  registerFactory<T, TDeps extends readonly ServiceIdentifier[]>(
+  registerFactory<T, const TDeps extends readonly ServiceIdentifier[]>(
     token: ServiceIdentifier<T>,
     factory: TypedFactory<T, TDeps>,
     deps: TDeps,
@@ -100,14 +100,18 @@ export interface IServiceCollection {
   addScoped<T>(token: ServiceIdentifier<T>, implementation?: new (...args: any[]) => T): this;
   addInstance<T>(token: ServiceIdentifier<T>, instance: T): this;
   addFactory<T>(token: ServiceIdentifier<T>, factory: (...deps: any[]) => T, deps?: ServiceIdentifier[]): this;
+  tryAdd<T>(provider: Provider<T>): this;
+  replace<T>(provider: Provider<T>): this;
   build(): Provider[];
 }
 
 /**
  * Module definition for organizing services
+ *
+ * Classes listed in `providers` are shorthand for class providers of themselves
  */
 export interface ModuleMetadata {
-  providers?: Provider[];
+  providers?: Array<Provider | (new (...args: any[]) => any)>;
   imports?: ModuleClass[];
   exports?: ServiceIdentifier[];
 }
@@ -121,7 +125,7 @@ export interface ModuleClass {
  */
 export interface IAsyncContainer {
   resolveAsync<T>(token: ServiceIdentifier<T>): Promise<T>;
-  registerAsync<T>(token: ServiceIdentifier<T>, factory: () => Promise<T>): this;
+  registerAsync<T>(token: ServiceIdentifier<T>, factory: () => Promise<T>, options?: ServiceOptions): this;
 }
 
 /**
@@ -144,12 +148,148 @@ export type ServiceInterface<T> = T extends new (...args: any[]) => infer I ? I
 export interface DependencyNode {
   token: ServiceIdentifier;
   dependencies: Set<ServiceIdentifier>;
+  optionalDependencies: Set<ServiceIdentifier>;
+  /**
+   * Dependencies injected through lazy proxies, which cannot form a cycle
+   */
+  lazyDependencies: Set<ServiceIdentifier>;
   dependents: Set<ServiceIdentifier>;
   depth: number;
+  /**
+   * Undefined when the token is depended upon but not registered
+   */
+  registration?: ServiceRegistration;
 }
 
 export type DependencyGraph = Map<ServiceIdentifier, DependencyNode>;
 
+/**
+ * Problems found by validating a dependency graph
+ */
+export interface ValidationIssue {
+  type: 'missing' | 'circular' | 'scope' | 'depth';
+  token: ServiceIdentifier;
+  chain: ServiceIdentifier[];
+  message: string;
+}
+
+export interface ValidationReport {
+  valid: boolean;
+  issues: ValidationIssue[];
+  graph: DependencyGraph;
+}
+
+/**
+ * Outcome of instantiating one service during bootstrap()
+ */
+export interface BootstrapServiceReport {
+  token: ServiceIdentifier;
+  name: string;
+  status: 'created' | 'failed';
+  durationMs: number;
+  error?: unknown;
+}
+
+export interface BootstrapReport {
+  success: boolean;
+  durationMs: number;
+  /**
+   * Services in the order they were instantiated, dependencies first
+   */
+  services: BootstrapServiceReport[];
+  /**
+   * Every failure combined, undefined when all services started
+   */
+  error?: AggregateError;
+}
+
+/**
+ * Number of creations that took at most `upperBoundMs`
+ * (and more than the previous bucket's bound)
+ */
+export interface HistogramBucket {
+  upperBoundMs: number;
+  count: number;
+}
+
+/**
+ * Statistics of a single token in one container
+ */
+export interface ServiceStats {
+  token: ServiceIdentifier;
+  name: string;
+  /**
+   * Times the service was served: instances created plus cache hits
+   */
+  resolutions: number;
+  instancesCreated: number;
+  cacheHits: number;
+  /**
+   * Time spent in the constructor or factory itself, dependencies excluded
+   */
+  totalCreationTimeMs: number;
+  averageCreationTimeMs: number;
+  maxCreationTimeMs: number;
+  creationTimeHistogram: HistogramBucket[];
+}
+
+export interface ContainerStats {
+  timestamp: Date;
+  registrations: number;
+  cachedInstances: number;
+  resolutions: number;
+  cacheHits: number;
+  cacheMisses: number;
+  /**
+   * cacheHits / (cacheHits + cacheMisses), 0 before the first cacheable resolution
+   */
+  cacheHitRatio: number;
+  evictions: number;
+  creationTimeHistogram: HistogramBucket[];
+  /**
+   * Per-token statistics, most resolved first
+   */
+  services: ServiceStats[];
+  /**
+   * Services with the highest maximum creation time, slowest first
+   */
+  slowestConstructors: ServiceStats[];
+}
+
+export type StatsReporter = (stats: ContainerStats) => void | Promise<void>;
+
+/**
+ * Options for startStatsReporter()
+ */
+export interface StatsReporterOptions {
+  /**
+   * Milliseconds between reports, PERFORMANCE_CONSTANTS.STATS_COLLECTION_INTERVAL_MS by default
+   */
+  intervalMs?: number;
+  /**
+   * Receives errors thrown or rejected by the reporter, logged by default
+   */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Options for disposeOnSignals()
+ */
+export interface ShutdownOptions {
+  /**
+   * Signal names that trigger disposal, SIGINT and SIGTERM by default
+   */
+  signals?: string[];
+  /**
+   * Exit the process once disposal has finished, true by default
+   */
+  exit?: boolean;
+  /**
+   * Receives the AggregateError when disposal hooks fail, logged by default
+   */
+  onError?: (error: unknown) => void;
+}
+
 /**
  * Resolution strategy types
  */
@@ -159,15 +299,38 @@ export enum ResolutionStrategy {
   USE_DEFAULT = 'default'
 }
 
+/**
+ * A single method call on an intercepted service
+ */
+export interface InvocationContext<T = any> {
+  readonly target: T;
+  readonly token: ServiceIdentifier<T>;
+  readonly method: string | symbol;
+  /**
+   * Arguments passed on by proceed(); interceptors may replace them
+   */
+  args: any[];
+  /**
+   * Call the next interceptor, or the original method after the last one.
+   * Returns whatever the method returns, including promises of async methods.
+   */
+  proceed(): any;
+}
+
 /**
  * Interceptor types for AOP support
  */
 export interface IInterceptor {
-  intercept(target: any, propertyKey: string | symbol, descriptor: PropertyDescriptor): PropertyDescriptor;
+  intercept(invocation: InvocationContext): any;
 }
 
 export type InterceptorFactory = (...args: any[]) => IInterceptor;
 
+/**
+ * Selects the services a container-level interceptor applies to
+ */
+export type InterceptorPredicate = (token: ServiceIdentifier, instance: object) => boolean;
+
 /**
  * Service proxy types for lazy loading and interception
  */
@@ -217,6 +380,16 @@ export enum ServiceState {
   DISPOSED = 'disposed'
 }
 
+/**
+ * Thrown when modules import each other in a cycle
+ */
+export class CircularModuleImportError extends ContainerError {
+  constructor(public readonly moduleChain: ModuleClass[]) {
+    super(`Circular module import detected: ${moduleChain.map(m => m.name).join(' -> ')}`);
+    this.name = 'CircularModuleImportError';
+  }
+}
+
 /**
  * Enhanced error types with generic support
  */
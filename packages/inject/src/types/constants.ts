@@ -87,7 +87,9 @@ export const DEFAULT_CONTAINER_OPTIONS: ContainerOptions = {
 export const DEFAULT_SCOPES = {
   SINGLETON: 'singleton' as const,
   PROTOTYPE: 'prototype' as const, 
-  TRANSIENT: 'transient' as const
+  TRANSIENT: 'transient' as const,
+  REQUEST: 'request' as const,
+  CACHED: 'cached' as const
 };
 
 /**
@@ -101,7 +103,9 @@ export const CONTAINER_EVENTS = {
   CONTAINER_DISPOSED: 'container:disposed',
   DEPENDENCY_RESOLVED: 'dependency:resolved',
   CIRCULAR_DEPENDENCY: 'circular:dependency',
-  MISSING_DEPENDENCY: 'missing:dependency'
+  MISSING_DEPENDENCY: 'missing:dependency',
+  CAPTIVE_DEPENDENCY: 'captive:dependency',
+  DISPOSAL_FAILED: 'disposal:failed'
 } as const;
 
 /**
@@ -141,9 +145,12 @@ export const PERFORMANCE_CONSTANTS = {
   MAX_RESOLUTION_DEPTH: 100,
   MAX_CIRCULAR_REFERENCES: 10,
   DEFAULT_CACHE_SIZE: 1000,
+  DEFAULT_CACHE_TTL_MS: 60000, // 1 minute
   DEFAULT_TIMEOUT_MS: 5000,
   GC_INTERVAL_MS: 60000, // 1 minute
-  STATS_COLLECTION_INTERVAL_MS: 30000 // 30 seconds
+  STATS_COLLECTION_INTERVAL_MS: 30000, // 30 seconds
+  CREATION_TIME_BUCKETS_MS: [0.1, 1, 10, 100, 1000],
+  SLOWEST_CONSTRUCTORS_LIMIT: 10
 } as const;
 
 /**
@@ -153,7 +160,7 @@ export const FEATURE_FLAGS = {
   ENABLE_ASYNC_RESOLUTION: true,
   ENABLE_LAZY_LOADING: true,
   ENABLE_PROXY_SERVICES: true,
-  ENABLE_AOP_SUPPORT: false,
+  ENABLE_AOP_SUPPORT: true,
   ENABLE_PERFORMANCE_MONITORING: true,
   ENABLE_DEBUG_LOGGING: false,
   ENABLE_STRICT_MODE: true
@@ -1,6 +1,17 @@
 // Core types and interfaces for the DI/IoC Framework
 
-import type { MetadataKey } from '../metadata';
+import type { MetadataKey, InjectableFilter } from '../metadata';
+import type {
+  ModuleClass,
+  DependencyGraph,
+  ValidationReport,
+  BootstrapReport,
+  ContainerStats,
+  StatsReporter,
+  StatsReporterOptions,
+  IInterceptor,
+  InterceptorPredicate
+} from './advanced';
 
 /**
  * Service identifier type - can be a constructor, string, symbol, or MetadataKey
@@ -13,11 +24,19 @@ export type ServiceIdentifier<T = any> =
 
 /**
  * Service scope enumeration
+ *
+ * REQUEST instances are cached in the container that resolves them, so each
+ * per-request child container gets its own instance.
  */
 export enum ServiceScope {
   SINGLETON = 'singleton',
   PROTOTYPE = 'prototype', 
-  TRANSIENT = 'transient'
+  TRANSIENT = 'transient',
+  REQUEST = 'request',
+  /**
+   * Shared like a singleton until its `ttl` expires, then created again
+   */
+  CACHED = 'cached'
 }
 
 /**
@@ -47,9 +66,13 @@ export interface ValueProvider<T = any> {
 export interface FactoryProvider<T = any> {
   type: 'factory';
   token: ServiceIdentifier<T>;
-  useFactory: (...deps: any[]) => T;
+  useFactory: (...deps: any[]) => T | Promise<T>;
   deps?: ServiceIdentifier[];
   scope?: ServiceScope;
+  /**
+   * Marks the factory as async - it can only be resolved through resolveAsync()
+   */
+  async?: boolean;
 }
 
 export interface ExistingProvider<T = any> {
@@ -72,12 +95,62 @@ export type Provider<T = any> =
  */
 export interface ServiceOptions {
   scope?: ServiceScope;
+  /**
+   * Lifetime in milliseconds of a CACHED scope instance, counted from its creation.
+   * Defaults to PERFORMANCE_CONSTANTS.DEFAULT_CACHE_TTL_MS.
+   */
+  ttl?: number;
   lazy?: boolean;
   tags?: string[];
+  /**
+   * Add this provider to the token's provider list instead of replacing
+   * the registration; all providers are resolved with resolveAll()
+   */
+  multi?: boolean;
+  /**
+   * Contextual binding selected by `@Inject(token, { named })`
+   */
+  name?: string;
+  /**
+   * Contextual binding selected by `@Inject(token, { tagged })`
+   */
+  tagged?: Record<string, unknown>;
+  /**
+   * Contextual binding selected when the condition accepts the request
+   */
+  when?: BindingCondition;
   onActivation?: (instance: any) => any;
-  onDeactivation?: (instance: any) => void;
+  /**
+   * Called when the instance is disposed; a returned promise is awaited by dispose()
+   */
+  onDeactivation?: (instance: any) => void | Promise<void>;
+}
+
+/**
+ * Constraints an injection site places on the binding it receives
+ */
+export interface InjectionConstraints {
+  named?: string;
+  tagged?: Record<string, unknown>;
 }
 
+/**
+ * A request for a service, made while resolving a token or one of its dependencies
+ */
+export interface BindingRequest extends InjectionConstraints {
+  token: ServiceIdentifier;
+  /**
+   * Tokens being resolved when the request was made, outermost first
+   */
+  resolutionStack: readonly ServiceIdentifier[];
+  /**
+   * Request of the service being injected into, undefined for top-level resolution
+   */
+  parent?: BindingRequest;
+}
+
+export type BindingCondition = (request: BindingRequest) => boolean;
+
 /**
  * Dependency injection information
  */
@@ -86,6 +159,10 @@ export interface DependencyInfo {
   optional: boolean;
   parameterIndex?: number;
   propertyKey?: string | symbol;
+  /**
+   * Resolved on first use through a lazy proxy
+   */
+  lazy?: boolean;
 }
 
 /**
@@ -110,10 +187,39 @@ export interface ContainerOptions {
   autoBindInjectable?: boolean;
   skipBaseClassChecks?: boolean;
   throwOnMissingDependencies?: boolean;
+  /**
+   * Keep cached scope instances until their ttl expires. When false every
+   * resolution of a cached scope service creates a new instance; singleton
+   * and request instances are shared either way.
+   */
   enableCaching?: boolean;
+  /**
+   * Maximum number of cached scope instances held by this container; the
+   * least recently used one is evicted and disposed when it is exceeded.
+   * Singleton and request instances do not count and are never evicted.
+   */
   maxCacheSize?: number;
+  /**
+   * Time in milliseconds each @PreDestroy method or onDeactivation hook may
+   * take during dispose(). Defaults to PERFORMANCE_CONSTANTS.DEFAULT_TIMEOUT_MS.
+   */
+  disposeTimeout?: number;
+  /**
+   * Keep the transient and prototype instances this container creates that
+   * need cleanup (@PreDestroy, Symbol.dispose/asyncDispose or onDeactivation)
+   * and dispose them with the container. Meant for short-lived child containers.
+   */
+  trackDisposables?: boolean;
+  /**
+   * What to do when a longer-lived service depends on a shorter-lived one,
+   * e.g. a singleton capturing a transient. Checked at registration and
+   * resolution; 'off' by default. Child containers inherit their parent's setting.
+   */
+  captiveDependencies?: CaptiveDependencyMode;
 }
 
+export type CaptiveDependencyMode = 'off' | 'warn' | 'throw';
+
 /**
  * Container interface for dependency injection operations
  */
@@ -129,10 +235,39 @@ export interface IContainer {
   bind<T>(token: ServiceIdentifier<T>): IBindingBuilder<T>;
   
   /**
-   * Resolve a service instance
+   * Resolve a service instance; the return type is inferred from class and
+   * MetadataKey tokens, string and symbol tokens take an explicit type argument
    */
+  resolve<K extends ServiceIdentifier>(token: K): InferServiceType<K>;
   resolve<T>(token: ServiceIdentifier<T>): T;
   
+  /**
+   * Resolve a service, awaiting async factories and @PostConstruct methods
+   */
+  resolveAsync<T>(token: ServiceIdentifier<T>): Promise<T>;
+
+  /**
+   * Resolve every multi provider of a token, parent containers first
+   */
+  resolveAll<T>(token: ServiceIdentifier<T>): T[];
+
+  /**
+   * Return a proxy that resolves the service on first member access
+   */
+  resolveLazy<T extends object>(token: ServiceIdentifier<T>): T;
+
+  /**
+   * Resolve every service carrying a tag, either listed in `tags` or
+   * used as a key of a contextual `tagged` binding
+   */
+  resolveByTag<T = unknown>(tag: string): T[];
+
+  /**
+   * Intercept every method of the services matching the predicate,
+   * in this container and its children
+   */
+  addInterceptor(predicate: InterceptorPredicate, interceptor: ServiceIdentifier<IInterceptor> | IInterceptor): this;
+  
   /**
    * Try to resolve a service, return undefined if not found
    */
@@ -147,11 +282,22 @@ export interface IContainer {
    * Unbind a service from the container
    */
   unbind(token: ServiceIdentifier): boolean;
+
+  /**
+   * Unbind a service, awaiting its async cleanup hooks
+   */
+  unbindAsync(token: ServiceIdentifier): Promise<boolean>;
   
   /**
    * Create a child container
    */
   createChild(options?: Partial<ContainerOptions>): IContainer;
+
+  /**
+   * Create a child container that disposes everything it creates, including
+   * transient instances; meant for `await using scope = container.createScope()`
+   */
+  createScope(options?: Partial<ContainerOptions>): IContainer;
   
   /**
    * Get the parent container
@@ -167,11 +313,82 @@ export interface IContainer {
    * Clear all registrations
    */
   clear(): void;
+
+  /**
+   * Clear all registrations, awaiting the async cleanup hooks of their instances
+   */
+  clearAsync(): Promise<void>;
   
   /**
    * Dispose the container and all singleton instances
    */
   dispose(): Promise<void>;
+
+  /**
+   * Same as dispose(), for `await using` declarations
+   */
+  [Symbol.asyncDispose](): Promise<void>;
+
+  /**
+   * Dispose synchronously for `using` declarations; promises returned by
+   * cleanup hooks are not awaited
+   */
+  [Symbol.dispose](): void;
+  
+  /**
+   * Load a module into isolated child containers, exposing its exports here
+   */
+  loadModule(moduleClass: ModuleClass): IContainer;
+
+  /**
+   * Register the discoverable @Injectable classes matching the filter
+   */
+  scan(filter?: InjectableFilter): this;
+  
+  /**
+   * Build the dependency graph of all visible registrations
+   */
+  getDependencyGraph(): DependencyGraph;
+  
+  /**
+   * Validate all visible registrations without instantiating anything
+   */
+  validate(): ValidationReport;
+
+  /**
+   * Instantiate every singleton registered with `lazy: false`, dependencies first
+   */
+  bootstrap(): Promise<BootstrapReport>;
+
+  /**
+   * Resolution counts, creation times and cache efficiency of this container
+   */
+  getStats(): ContainerStats;
+
+  /**
+   * Report getStats() periodically; returns a function stopping the reporter
+   */
+  startStatsReporter(reporter: StatsReporter, options?: StatsReporterOptions): () => void;
+  
+  /**
+   * Capture the current registrations and cached instances
+   */
+  snapshot(): ContainerSnapshot;
+  
+  /**
+   * Restore registrations and cached instances captured by snapshot()
+   */
+  restore(snapshot: ContainerSnapshot): void;
+  
+  /**
+   * Add an event listener; events from child containers propagate here
+   */
+  on(event: ContainerEvent | `${ContainerEvent}`, listener: ContainerEventListener): this;
+  
+  /**
+   * Remove an event listener
+   */
+  off(event: ContainerEvent | `${ContainerEvent}`, listener: ContainerEventListener): this;
 }
 
 /**
@@ -189,8 +406,15 @@ export interface IBindingOptions<T> {
   inSingletonScope(): IBindingFinalized<T>;
   inPrototypeScope(): IBindingFinalized<T>;
   inTransientScope(): IBindingFinalized<T>;
+  inRequestScope(): IBindingFinalized<T>;
+  inCachedScope(ttl: number): IBindingFinalized<T>;
   inScope(scope: ServiceScope): IBindingFinalized<T>;
   withOptions(options: ServiceOptions): IBindingFinalized<T>;
+  named(name: string): IBindingFinalized<T>;
+  whenTagged(key: string, value: unknown): IBindingFinalized<T>;
+  whenInjectedInto(target: ServiceIdentifier): IBindingFinalized<T>;
+  whenParentNamed(name: string): IBindingFinalized<T>;
+  when(condition: BindingCondition): IBindingFinalized<T>;
 }
 
 export interface IBindingFactoryOptions<T> {
@@ -198,8 +422,15 @@ export interface IBindingFactoryOptions<T> {
   inSingletonScope(): IBindingFinalized<T>;
   inPrototypeScope(): IBindingFinalized<T>;
   inTransientScope(): IBindingFinalized<T>;
+  inRequestScope(): IBindingFinalized<T>;
+  inCachedScope(ttl: number): IBindingFinalized<T>;
   inScope(scope: ServiceScope): IBindingFinalized<T>;
   withOptions(options: ServiceOptions): IBindingFinalized<T>;
+  named(name: string): IBindingFinalized<T>;
+  whenTagged(key: string, value: unknown): IBindingFinalized<T>;
+  whenInjectedInto(target: ServiceIdentifier): IBindingFinalized<T>;
+  whenParentNamed(name: string): IBindingFinalized<T>;
+  when(condition: BindingCondition): IBindingFinalized<T>;
 }
 
 export interface IBindingFinalized<T> {
@@ -214,6 +445,14 @@ export interface ResolutionContext {
   resolutionStack: ServiceIdentifier[];
   cache: Map<ServiceIdentifier, any>;
   isOptional: boolean;
+  /**
+   * Request of the service currently being created
+   */
+  request?: BindingRequest;
+  /**
+   * Scope of the service currently being created
+   */
+  scope?: ServiceScope;
 }
 
 /**
@@ -226,6 +465,10 @@ export interface ServiceInstance<T = any> {
   lastAccessed: Date;
   accessCount: number;
   disposed: boolean;
+  /**
+   * Set for CACHED scope instances
+   */
+  expiresAt?: Date;
 }
 
 /**
@@ -236,17 +479,30 @@ export enum ContainerEvent {
   SERVICE_RESOLVED = 'service:resolved',
   SERVICE_CREATED = 'service:created',
   SERVICE_DISPOSED = 'service:disposed',
-  CONTAINER_DISPOSED = 'container:disposed'
+  CONTAINER_DISPOSED = 'container:disposed',
+  CIRCULAR_DEPENDENCY = 'circular:dependency',
+  MISSING_DEPENDENCY = 'missing:dependency',
+  CAPTIVE_DEPENDENCY = 'captive:dependency',
+  DISPOSAL_FAILED = 'disposal:failed'
 }
 
 /**
  * Event data for container events
+ *
+ * `container` is the container that emitted the event, which may be a
+ * descendant of the container the listener was added to
  */
 export interface ContainerEventData {
-  token: ServiceIdentifier;
+  event: ContainerEvent;
+  token?: ServiceIdentifier;
   instance?: any;
   container: IContainer;
   timestamp: Date;
+  dependencyChain?: ServiceIdentifier[];
+  /**
+   * Failure of a cleanup hook that was not awaited, for disposal:failed
+   */
+  error?: unknown;
 }
 
 /**
@@ -260,9 +516,41 @@ export type ContainerEventListener = (data: ContainerEventData) => void;
 export interface ContainerSnapshot {
   registrations: ServiceRegistration[];
   instances: Map<ServiceIdentifier, ServiceInstance>;
+  /**
+   * Cached instances of multi and contextual providers, keyed by registration
+   */
+  registrationInstances?: Map<ServiceRegistration, ServiceInstance>;
   childContainers: IContainer[];
   options: ContainerOptions;
   createdAt: Date;
+  /**
+   * JSON summary used by JSON.stringify()
+   */
+  toJSON(): ContainerSnapshotSummary;
+}
+
+/**
+ * JSON-serializable summary of a container snapshot
+ */
+export interface ContainerSnapshotSummary {
+  createdAt: string;
+  options: ContainerOptions;
+  registrations: Array<{
+    token: string;
+    type: Provider['type'];
+    scope?: ServiceScope;
+    tags: string[];
+    registeredAt: string;
+    sourceLocation?: string;
+  }>;
+  instances: Array<{
+    token: string;
+    scope: ServiceScope;
+    createdAt: string;
+    accessCount: number;
+    disposed: boolean;
+  }>;
+  childContainers: number;
 }
 
 /**
@@ -302,6 +590,44 @@ export class InvalidProviderError extends ContainerError {
   }
 }
 
+export class AsyncProviderError extends ContainerError {
+  constructor(token: ServiceIdentifier, source = 'an async provider that has not been resolved yet') {
+    super(`Service ${getTokenName(token)} has ${source}; use resolveAsync() instead`, token);
+    this.name = 'AsyncProviderError';
+  }
+}
+
+export class CaptiveDependencyError extends ContainerError {
+  constructor(
+    public readonly dependencyChain: ServiceIdentifier[],
+    public readonly dependentScope: ServiceScope,
+    public readonly dependencyScope: ServiceScope
+  ) {
+    super(describeCaptiveDependency(dependencyChain, dependentScope, dependencyScope), dependencyChain[dependencyChain.length - 1]);
+    this.name = 'CaptiveDependencyError';
+  }
+}
+
+function describeCaptiveDependency(chain: ServiceIdentifier[], dependentScope: ServiceScope, dependencyScope: ServiceScope): string {
+  const [dependent, dependency] = chain.slice(-2).map(getTokenName);
+  return `Captive dependency: ${dependentScope} service ${dependent} depends on ${dependencyScope} service ${dependency} ` +
+    `(${chain.map(getTokenName).join(' -> ')})`;
+}
+
+export class RequestScopeError extends ContainerError {
+  constructor(token: ServiceIdentifier) {
+    super(`Request-scoped service ${getTokenName(token)} cannot be resolved from the root container; resolve it from a scope created with createScope()`, token);
+    this.name = 'RequestScopeError';
+  }
+}
+
+export class DisposalTimeoutError extends ContainerError {
+  constructor(token: ServiceIdentifier, hook: string, public readonly timeoutMs: number) {
+    super(`Disposal hook ${hook} of ${getTokenName(token)} did not finish within ${timeoutMs}ms`, token);
+    this.name = 'DisposalTimeoutError';
+  }
+}
+
 /**
  * Type guards for provider types
  */
@@ -321,6 +647,19 @@ export function isExistingProvider(provider: Provider): provider is ExistingProv
   return provider.type === 'existing';
 }
 
+/**
+ * Human-readable name for a service identifier
+ */
+export function getTokenName(token: ServiceIdentifier): string {
+  if (typeof token === 'function') {
+    return token.name || 'AnonymousClass';
+  }
+  if (typeof token === 'object' && token !== null) {
+    return token.description;
+  }
+  return String(token);
+}
+
 /**
  * Utility types for improved type inference
  */
@@ -38,6 +38,146 @@ describe('Advanced Container Features', () => {
       expect(ContainerEvent.SERVICE_REGISTERED).toBe('service:registered');
       expect(ContainerEvent.SERVICE_RESOLVED).toBe('service:resolved');
     });
+
+    it('should emit registration, creation and resolution events', () => {
+      const registered = jest.fn();
+      const created = jest.fn();
+      const resolved = jest.fn();
+
+      container.on(ContainerEvent.SERVICE_REGISTERED, registered);
+      container.on(ContainerEvent.SERVICE_CREATED, created);
+      container.on('service:resolved', resolved);
+
+      container.register({ type: 'value', token: 'config', useValue: { debug: true } });
+      container.resolve('config');
+      container.resolve('config');
+
+      expect(registered).toHaveBeenCalledWith(expect.objectContaining({
+        event: ContainerEvent.SERVICE_REGISTERED,
+        token: 'config',
+        container
+      }));
+      expect(created).toHaveBeenCalledTimes(1);
+      expect(resolved).toHaveBeenCalledTimes(2);
+      expect(resolved.mock.calls[0][0].instance).toEqual({ debug: true });
+    });
+
+    it('should emit missing and circular dependency events', () => {
+      const missing = jest.fn();
+      const circular = jest.fn();
+
+      container.on(ContainerEvent.MISSING_DEPENDENCY, missing);
+      container.on(ContainerEvent.CIRCULAR_DEPENDENCY, circular);
+
+      expect(() => container.resolve('unknown')).toThrow(ServiceNotFoundError);
+      expect(missing.mock.calls[0][0].token).toBe('unknown');
+
+      container.register({ type: 'factory', token: 'a', useFactory: (b: any) => b, deps: ['b'] });
+      container.register({ type: 'factory', token: 'b', useFactory: (a: any) => a, deps: ['a'] });
+
+      expect(() => container.resolve('a')).toThrow();
+      expect(circular.mock.calls[0][0].dependencyChain).toEqual(['a', 'b', 'a']);
+    });
+
+    it('should emit disposal events', async () => {
+      const serviceDisposed = jest.fn();
+      const containerDisposed = jest.fn();
+
+      container.on(ContainerEvent.SERVICE_DISPOSED, serviceDisposed);
+      container.on(ContainerEvent.CONTAINER_DISPOSED, containerDisposed);
+
+      container.register({ type: 'value', token: 'value', useValue: 1 });
+      container.resolve('value');
+      await container.dispose();
+
+      expect(serviceDisposed.mock.calls[0][0].token).toBe('value');
+      expect(containerDisposed).toHaveBeenCalledTimes(1);
+    });
+
+    it('should propagate events from child containers to the parent', async () => {
+      const created = jest.fn();
+      const containerDisposed = jest.fn();
+      container.on(ContainerEvent.SERVICE_CREATED, created);
+      container.on(ContainerEvent.CONTAINER_DISPOSED, containerDisposed);
+
+      const child = container.createChild();
+      child.register({ type: 'value', token: 'child-value', useValue: 'child' });
+      child.resolve('child-value');
+      await child.dispose();
+
+      expect(created.mock.calls[0][0].container).toBe(child);
+      expect(containerDisposed.mock.calls[0][0].container).toBe(child);
+    });
+
+    it('should stop notifying removed listeners', () => {
+      const listener = jest.fn();
+
+      container.on(ContainerEvent.SERVICE_REGISTERED, listener);
+      container.off(ContainerEvent.SERVICE_REGISTERED, listener);
+      container.register({ type: 'value', token: 'value', useValue: 1 });
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Snapshots', () => {
+    class Database {
+      constructor(public readonly name = 'real') {}
+    }
+
+    beforeEach(() => {
+      container.register({ type: 'class', token: Database, useClass: Database });
+      container.register({ type: 'value', token: 'config', useValue: { env: 'test' } });
+    });
+
+    it('should restore overridden registrations and singleton instances', () => {
+      const original = container.resolve(Database);
+      const snapshot = container.snapshot();
+
+      container.register({ type: 'value', token: Database, useValue: new Database('mock') });
+      container.register({ type: 'value', token: 'extra', useValue: 1 });
+      expect(container.resolve(Database).name).toBe('mock');
+
+      container.restore(snapshot);
+
+      expect(container.resolve(Database)).toBe(original);
+      expect(container.has('extra')).toBe(false);
+      expect(container.resolve('config')).toEqual({ env: 'test' });
+    });
+
+    it('should dispose instances created after the snapshot', () => {
+      const destroySpy = jest.fn();
+
+      class TestOnlyService {
+        @PreDestroy
+        cleanup() { destroySpy(); }
+      }
+
+      const snapshot = container.snapshot();
+      container.register({ type: 'class', token: TestOnlyService, useClass: TestOnlyService });
+      container.resolve(TestOnlyService);
+
+      container.restore(snapshot);
+
+      expect(destroySpy).toHaveBeenCalledTimes(1);
+      expect(container.has(TestOnlyService)).toBe(false);
+    });
+
+    it('should serialize to a JSON summary', () => {
+      container.resolve(Database);
+
+      const summary = JSON.parse(JSON.stringify(container.snapshot()));
+
+      expect(summary.registrations).toEqual(expect.arrayContaining([
+        expect.objectContaining({ token: 'Database', type: 'class', scope: ServiceScope.SINGLETON }),
+        expect.objectContaining({ token: 'config', type: 'value' })
+      ]));
+      expect(summary.instances).toEqual([
+        expect.objectContaining({ token: 'Database', accessCount: 1, disposed: false })
+      ]);
+      expect(summary.childContainers).toBe(0);
+      expect(typeof summary.createdAt).toBe('string');
+    });
   });
 
   describe('Resolution Strategy', () => {
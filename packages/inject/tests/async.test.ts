@@ -0,0 +1,164 @@
+// Async resolution tests
+
+import {
+  Container,
+  AsyncProviderError,
+  Injectable,
+  Inject,
+  PostConstruct,
+  createMetadataKey
+} from '../src';
+
+describe('Async Resolution', () => {
+  let container: Container;
+
+  beforeEach(() => {
+    container = new Container();
+  });
+
+  afterEach(async () => {
+    await container.dispose();
+  });
+
+  it('should resolve async factories registered with registerAsync', async () => {
+    const POOL = createMetadataKey<{ size: number }>('pool');
+
+    container.registerAsync(POOL, async () => {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      return { size: 10 };
+    });
+
+    const pool = await container.resolveAsync(POOL);
+    expect(pool.size).toBe(10);
+    expect(container.resolve(POOL)).toBe(pool);
+  });
+
+  it('should await factories returning promises', async () => {
+    container.register({
+      type: 'factory',
+      token: 'config',
+      useFactory: () => Promise.resolve({ port: 8080 })
+    });
+
+    const config = await container.resolveAsync('config');
+    expect(config).toEqual({ port: 8080 });
+  });
+
+  it('should throw a clear error when resolving an unresolved async provider synchronously', () => {
+    container.registerAsync('db', async () => ({ connected: true }));
+
+    expect(() => container.resolve('db')).toThrow(AsyncProviderError);
+    expect(() => container.resolve('db')).toThrow('use resolveAsync()');
+  });
+
+  it('should reject factories returning promises in sync resolve()', async () => {
+    const config = jest.fn(() => Promise.resolve({ port: 8080 }));
+    container.register({ type: 'factory', token: 'config', useFactory: config });
+    container.register({
+      type: 'factory',
+      token: 'server',
+      useFactory: (config: { port: number }) => ({ port: config.port }),
+      deps: ['config']
+    });
+
+    expect(() => container.resolve('server')).toThrow(
+      new AsyncProviderError('config', 'a factory that returned a promise')
+    );
+
+    // Nothing was cached, so resolveAsync() still gets the real value
+    expect(await container.resolveAsync('server')).toEqual({ port: 8080 });
+    expect(container.resolve('server')).toEqual({ port: 8080 });
+  });
+
+  it('should reject downleveled async factories by their result', () => {
+    container.register({
+      type: 'factory',
+      token: 'db',
+      useFactory: () => new Promise((_, reject) => setTimeout(() => reject(new Error('unreachable')), 1))
+    });
+
+    expect(() => container.resolve('db')).toThrow(AsyncProviderError);
+  });
+
+  it('should reject async @PostConstruct methods in sync resolve()', async () => {
+    class Cache {
+      ready = false;
+
+      @PostConstruct
+      async warmUp() {
+        await new Promise(resolve => setTimeout(resolve, 1));
+        throw new Error('warm-up failed');
+      }
+    }
+
+    container.register({ type: 'class', token: Cache, useClass: Cache });
+
+    expect(() => container.resolve(Cache)).toThrow(
+      'Service Cache has an async @PostConstruct method warmUp(); use resolveAsync() instead'
+    );
+    await expect(container.resolveAsync(Cache)).rejects.toThrow('warm-up failed');
+  });
+
+  it('should await the whole dependency graph', async () => {
+    const CONFIG = createMetadataKey<{ url: string }>('config');
+    const initSpy = jest.fn();
+
+    container.registerAsync(CONFIG, async () => ({ url: 'db://async' }));
+
+    @Injectable({ deps: [CONFIG] })
+    class Database {
+      connected = false;
+
+      constructor(public readonly config: { url: string }) {}
+
+      @PostConstruct
+      async connect() {
+        await new Promise(resolve => setTimeout(resolve, 5));
+        this.connected = true;
+        initSpy();
+      }
+    }
+
+    @Injectable()
+    class Repository {
+      @Inject(Database)
+      database!: Database;
+    }
+
+    container.register({ type: 'class', token: Database, useClass: Database });
+    container.register({ type: 'class', token: Repository, useClass: Repository });
+
+    const repository = await container.resolveAsync(Repository);
+    expect(repository.database.connected).toBe(true);
+    expect(repository.database.config.url).toBe('db://async');
+    expect(initSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should dedupe concurrent initialization of the same singleton', async () => {
+    const factory = jest.fn(async () => {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      return {};
+    });
+
+    container.registerAsync('shared', factory);
+
+    const [first, second, third] = await Promise.all([
+      container.resolveAsync('shared'),
+      container.resolveAsync('shared'),
+      container.resolveAsync('shared')
+    ]);
+
+    expect(factory).toHaveBeenCalledTimes(1);
+    expect(second).toBe(first);
+    expect(third).toBe(first);
+  });
+
+  it('should resolve async singletons from the parent when resolving in a child', async () => {
+    container.registerAsync('shared', async () => ({}));
+
+    const child = container.createChild();
+    const fromChild = await child.resolveAsync('shared');
+
+    expect(await container.resolveAsync('shared')).toBe(fromChild);
+  });
+});
@@ -0,0 +1,136 @@
+// Bootstrap tests
+
+import {
+  Container,
+  Injectable,
+  PostConstruct,
+  ServiceScope
+} from '../src';
+
+describe('Bootstrap', () => {
+  let container: Container;
+  let created: string[];
+
+  beforeEach(() => {
+    container = new Container();
+    created = [];
+  });
+
+  afterEach(async () => {
+    await container.dispose();
+  });
+
+  it('should instantiate non-lazy singletons in dependency order', async () => {
+    class Config {
+      constructor() {
+        created.push('Config');
+      }
+    }
+
+    @Injectable({ deps: [Config] })
+    class Database {
+      constructor(public config: Config) {
+        created.push('Database');
+      }
+    }
+
+    @Injectable({ deps: [Database] })
+    class UserRepository {
+      constructor(public db: Database) {
+        created.push('UserRepository');
+      }
+    }
+
+    container.register({ type: 'class', token: UserRepository, useClass: UserRepository }, { lazy: false });
+    container.register({ type: 'class', token: Database, useClass: Database }, { lazy: false });
+    container.register({ type: 'class', token: Config, useClass: Config }, { lazy: false });
+
+    const report = await container.bootstrap();
+
+    expect(created).toEqual(['Config', 'Database', 'UserRepository']);
+    expect(report.success).toBe(true);
+    expect(report.error).toBeUndefined();
+    expect(report.services.map(service => service.name)).toEqual(['Config', 'Database', 'UserRepository']);
+    expect(report.services.every(service => service.status === 'created' && service.durationMs >= 0)).toBe(true);
+    expect(container.resolve(UserRepository).db).toBe(container.resolve(Database));
+  });
+
+  it('should leave lazy singletons and other scopes alone', async () => {
+    class LazyService {
+      constructor() {
+        created.push('LazyService');
+      }
+    }
+
+    class TransientService {
+      constructor() {
+        created.push('TransientService');
+      }
+    }
+
+    container.register({ type: 'class', token: LazyService, useClass: LazyService });
+    container.register({ type: 'class', token: TransientService, useClass: TransientService }, {
+      lazy: false,
+      scope: ServiceScope.TRANSIENT
+    });
+
+    const report = await container.bootstrap();
+
+    expect(created).toEqual([]);
+    expect(report.services).toEqual([]);
+    expect(report.success).toBe(true);
+  });
+
+  it('should await async factories and @PostConstruct methods', async () => {
+    class Cache {
+      ready = false;
+
+      @PostConstruct
+      async warmUp() {
+        await new Promise(resolve => setTimeout(resolve, 5));
+        this.ready = true;
+      }
+    }
+    new Cache(); // record lifecycle metadata
+
+    container.register({ type: 'class', token: Cache, useClass: Cache }, { lazy: false });
+    container.registerAsync('pool', async () => ({ size: 5 }), { lazy: false });
+
+    const report = await container.bootstrap();
+
+    expect(report.success).toBe(true);
+    expect(container.resolve(Cache).ready).toBe(true);
+    expect(container.resolve('pool')).toEqual({ size: 5 });
+  });
+
+  it('should aggregate failures instead of stopping at the first one', async () => {
+    class Healthy {}
+
+    container.register({ type: 'factory', token: 'broken', useFactory: () => { throw new Error('bad config'); } }, { lazy: false });
+    container.register({ type: 'class', token: Healthy, useClass: Healthy }, { lazy: false });
+    container.registerAsync('remote', async () => { throw new Error('unreachable'); }, { lazy: false });
+
+    const report = await container.bootstrap();
+
+    expect(report.success).toBe(false);
+    expect(report.services.map(service => [service.name, service.status])).toEqual([
+      ['broken', 'failed'],
+      ['Healthy', 'created'],
+      ['remote', 'failed']
+    ]);
+    expect(report.error).toBeInstanceOf(AggregateError);
+    expect(report.error?.errors.map((error: Error) => error.message)).toEqual(['bad config', 'unreachable']);
+    expect(report.error?.message).toBe('2 of 3 services failed to start');
+  });
+
+  it('should include multi providers', async () => {
+    container.register({ type: 'factory', token: 'plugin', useFactory: () => created.push('a') }, { multi: true, lazy: false });
+    container.register({ type: 'factory', token: 'plugin', useFactory: () => created.push('b') }, { multi: true, lazy: false });
+
+    const report = await container.bootstrap();
+
+    expect(report.services).toHaveLength(2);
+    expect(created).toEqual(['a', 'b']);
+    expect(container.resolveAll('plugin')).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,202 @@
+// Instance cache tests
+
+import {
+  Container,
+  Injectable,
+  PreDestroy,
+  ServiceScope
+} from '../src';
+
+describe('Instance Cache', () => {
+  let container: Container;
+  let disposed: string[];
+
+  beforeEach(() => {
+    container = new Container();
+    disposed = [];
+  });
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    await container.dispose();
+  });
+
+  const registerTracked = (token: string, options = {}) => {
+    container.register({ type: 'factory', token, useFactory: () => ({ token }) }, {
+      scope: ServiceScope.CACHED,
+      ...options,
+      onDeactivation: () => {
+        disposed.push(token);
+      }
+    });
+  };
+
+  describe('maxCacheSize', () => {
+    it('should evict and dispose the least recently used instance', async () => {
+      jest.useFakeTimers({ now: 0 });
+      container = new Container({ maxCacheSize: 2 });
+      registerTracked('a');
+      registerTracked('b');
+      registerTracked('c');
+
+      const a = container.resolve('a');
+      jest.advanceTimersByTime(10);
+      container.resolve('b');
+      jest.advanceTimersByTime(10);
+      expect(container.resolve('a')).toBe(a); // a is now more recent than b
+      jest.advanceTimersByTime(10);
+      container.resolve('c');
+      await Promise.resolve();
+
+      expect(disposed).toEqual(['b']);
+      expect(container.resolve('a')).toBe(a);
+    });
+
+    it('should prefer evicting rarely used instances when equally recent', async () => {
+      jest.useFakeTimers({ now: 0 });
+      container = new Container({ maxCacheSize: 2 });
+      registerTracked('popular');
+      registerTracked('rare');
+      registerTracked('new');
+
+      container.resolve('rare');
+      container.resolve('popular');
+      container.resolve('popular');
+      container.resolve('new');
+      await Promise.resolve();
+
+      expect(disposed).toEqual(['rare']);
+    });
+
+    it('should create a new instance after eviction', () => {
+      container = new Container({ maxCacheSize: 1 });
+      registerTracked('a');
+      registerTracked('b');
+
+      const a = container.resolve('a');
+      container.resolve('b');
+
+      expect(container.resolve('a')).not.toBe(a);
+    });
+
+    it('should await evicted instance disposal in dispose()', async () => {
+      container = new Container({ maxCacheSize: 1 });
+
+      class Connection {
+        @PreDestroy
+        async close() {
+          await new Promise(resolve => setTimeout(resolve, 5));
+          disposed.push('Connection');
+        }
+      }
+      new Connection();
+
+      container.register({ type: 'class', token: Connection, useClass: Connection }, { scope: ServiceScope.CACHED });
+      registerTracked('other');
+      container.resolve(Connection);
+      container.resolve('other');
+
+      await container.dispose();
+
+      expect(disposed).toEqual(['other', 'Connection']);
+    });
+
+    it('should never count or evict singleton and request instances', async () => {
+      // A child container, since request-scoped services need one
+      container = new Container().createChild({ maxCacheSize: 1 }) as Container;
+
+      class Pool {
+        @PreDestroy
+        close() {
+          disposed.push('Pool');
+        }
+      }
+      new Pool();
+
+      @Injectable({ deps: [Pool] })
+      class Repo {
+        constructor(public pool: Pool) {}
+      }
+
+      container.register({ type: 'class', token: Pool, useClass: Pool });
+      container.register({ type: 'class', token: Repo, useClass: Repo });
+      container.register({ type: 'factory', token: 'session', useFactory: () => ({}) }, { scope: ServiceScope.REQUEST });
+      registerTracked('a');
+      registerTracked('b');
+
+      const repo = container.resolve(Repo);
+      const session = container.resolve('session');
+      container.resolve('a');
+      container.resolve('b');
+      await Promise.resolve();
+
+      expect(disposed).toEqual(['a']);
+      expect(container.resolve(Pool)).toBe(repo.pool);
+      expect(container.resolve('session')).toBe(session);
+    });
+  });
+
+  describe('enableCaching', () => {
+    it('should create cached scope instances on every resolution when disabled', () => {
+      container = new Container({ enableCaching: false });
+      class Client {}
+      container.bind(Client).toSelf().inCachedScope(1000);
+
+      expect(container.resolve(Client)).not.toBe(container.resolve(Client));
+    });
+
+    it('should keep singletons shared when disabled', () => {
+      container = new Container({ enableCaching: false });
+      class Service {}
+      container.bind(Service).toSelf().inSingletonScope();
+
+      expect(container.resolve(Service)).toBe(container.resolve(Service));
+    });
+  });
+
+  describe('cached scope', () => {
+    it('should share the instance until its ttl expires', async () => {
+      jest.useFakeTimers({ now: 0 });
+      let issued = 0;
+      container.bind('credentials').toFactory(() => ({ token: ++issued })).inCachedScope(1000);
+
+      const first = container.resolve<{ token: number }>('credentials');
+      jest.advanceTimersByTime(999);
+      expect(container.resolve('credentials')).toBe(first);
+
+      jest.advanceTimersByTime(1);
+      const renewed = container.resolve<{ token: number }>('credentials');
+      expect(renewed).not.toBe(first);
+      expect(renewed.token).toBe(2);
+    });
+
+    it('should dispose expired instances', async () => {
+      jest.useFakeTimers({ now: 0 });
+      registerTracked('client', { scope: ServiceScope.CACHED, ttl: 50 });
+
+      container.resolve('client');
+      jest.advanceTimersByTime(50);
+      container.resolve('client');
+      await Promise.resolve();
+
+      expect(disposed).toEqual(['client']);
+    });
+
+    it('should share cached instances with child containers', () => {
+      class Client {}
+      container.bind(Client).toSelf().inCachedScope(1000);
+      const child = container.createChild();
+
+      expect(child.resolve(Client)).toBe(container.resolve(Client));
+    });
+
+    it('should record the expiry on the cached instance', () => {
+      jest.useFakeTimers({ now: 0 });
+      container.register({ type: 'factory', token: 'client', useFactory: () => ({}) }, { scope: ServiceScope.CACHED });
+      container.resolve('client');
+
+      const instance = container.snapshot().instances.get('client');
+      expect(instance?.expiresAt?.getTime()).toBe(60000);
+    });
+  });
+});
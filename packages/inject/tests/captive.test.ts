@@ -0,0 +1,151 @@
+// Captive dependency detection tests
+
+import {
+  Container,
+  ContainerFactory,
+  Injectable,
+  Inject,
+  Module,
+  CaptiveDependencyError,
+  ServiceScope
+} from '../src';
+
+describe('Captive Dependencies', () => {
+  let container: Container;
+  let warn: jest.SpyInstance;
+
+  class Transaction {}
+
+  @Injectable({ deps: [Transaction] })
+  class Repository {
+    constructor(public transaction: Transaction) {}
+  }
+
+  @Injectable({ deps: [Repository] })
+  class UserService {
+    constructor(public repository: Repository) {}
+  }
+
+  beforeEach(() => {
+    warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    warn.mockRestore();
+    await container.dispose();
+  });
+
+  it('should allow captive dependencies by default', () => {
+    container = new Container();
+    container.register({ type: 'class', token: Transaction, useClass: Transaction }, { scope: ServiceScope.TRANSIENT });
+    container.register({ type: 'class', token: Repository, useClass: Repository });
+
+    expect(() => container.resolve(Repository)).not.toThrow();
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  describe('throw', () => {
+    beforeEach(() => {
+      container = new Container({ captiveDependencies: 'throw' });
+    });
+
+    it('should reject a singleton registered with a shorter-lived dependency', () => {
+      container.register({ type: 'class', token: Transaction, useClass: Transaction }, { scope: ServiceScope.TRANSIENT });
+
+      expect(() => container.register({ type: 'class', token: Repository, useClass: Repository }))
+        .toThrow(CaptiveDependencyError);
+      expect(container.has(Repository)).toBe(false);
+    });
+
+    it('should reject a short-lived registration that an existing singleton depends on', () => {
+      container.register({ type: 'class', token: Repository, useClass: Repository });
+
+      expect(() => container.register({ type: 'class', token: Transaction, useClass: Transaction }, { scope: ServiceScope.REQUEST }))
+        .toThrow('Captive dependency: singleton service Repository depends on request service Transaction (Repository -> Transaction)');
+    });
+
+    it('should show the resolution chain when detected during resolution', () => {
+      // Each registration is fine on its own; the child's override makes the chain captive
+      container.register({ type: 'class', token: UserService, useClass: UserService }, { scope: ServiceScope.TRANSIENT });
+      container.register({ type: 'class', token: Repository, useClass: Repository }, { scope: ServiceScope.REQUEST });
+      const child = container.createChild();
+      child.register({ type: 'class', token: Transaction, useClass: Transaction }, { scope: ServiceScope.TRANSIENT });
+
+      let error: CaptiveDependencyError | undefined;
+      try {
+        child.resolve(UserService);
+      } catch (caught) {
+        error = caught as CaptiveDependencyError;
+      }
+
+      expect(error).toBeInstanceOf(CaptiveDependencyError);
+      expect(error?.dependencyChain).toEqual([UserService, Repository, Transaction]);
+      expect(error?.dependentScope).toBe(ServiceScope.REQUEST);
+      expect(error?.dependencyScope).toBe(ServiceScope.TRANSIENT);
+      expect(error?.message).toContain('(UserService -> Repository -> Transaction)');
+    });
+
+    it('should check property injections', () => {
+      class Session {}
+
+      class Controller {
+        @Inject(Session)
+        session!: Session;
+      }
+
+      container.register({ type: 'class', token: Session, useClass: Session }, { scope: ServiceScope.REQUEST });
+
+      // Known at registration, before any Controller has been created
+      expect(() => container.register({ type: 'class', token: 'controller', useClass: Controller }))
+        .toThrow('Captive dependency: singleton service controller depends on request service Session (controller -> Session)');
+    });
+
+    it('should allow dependencies that live at least as long', () => {
+      container.register({ type: 'class', token: Transaction, useClass: Transaction });
+      container.register({ type: 'class', token: Repository, useClass: Repository }, { scope: ServiceScope.REQUEST });
+      container.register({ type: 'class', token: UserService, useClass: UserService }, { scope: ServiceScope.TRANSIENT });
+
+      expect(() => container.createScope().resolve(UserService)).not.toThrow();
+    });
+
+    it('should not treat module exports as transient', () => {
+      @Module({ providers: [Transaction], exports: [Transaction] })
+      class DataModule {}
+
+      container.loadModule(DataModule);
+
+      expect(() => container.register({ type: 'class', token: Repository, useClass: Repository })).not.toThrow();
+      expect(container.resolve(Repository).transaction).toBeInstanceOf(Transaction);
+    });
+  });
+
+  describe('warn', () => {
+    beforeEach(() => {
+      container = new Container({ captiveDependencies: 'warn' });
+    });
+
+    it('should warn once per dependency and keep going', () => {
+      const events: unknown[] = [];
+      container.on('captive:dependency', event => events.push(event.dependencyChain));
+
+      container.register({ type: 'class', token: Transaction, useClass: Transaction }, { scope: ServiceScope.TRANSIENT });
+      container.register({ type: 'class', token: Repository, useClass: Repository });
+      container.resolve(Repository);
+      container.resolve(Repository);
+
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn).toHaveBeenCalledWith(
+        'Captive dependency: singleton service Repository depends on transient service Transaction (Repository -> Transaction)'
+      );
+      expect(events).toEqual([[Repository, Transaction], [Repository, Transaction]]);
+    });
+  });
+
+  it('should be enabled by createStrictContainer', () => {
+    container = ContainerFactory.createStrictContainer() as Container;
+    container.register({ type: 'class', token: Transaction, useClass: Transaction }, { scope: ServiceScope.TRANSIENT });
+
+    expect(() => container.register({ type: 'class', token: Repository, useClass: Repository }))
+      .toThrow(CaptiveDependencyError);
+  });
+});
@@ -0,0 +1,145 @@
+// Service collection tests
+
+import {
+  Container,
+  ContainerFactory,
+  Injectable,
+  InvalidProviderError,
+  ServiceCollection,
+  ServiceScope,
+  createMetadataKey
+} from '../src';
+
+describe('ServiceCollection', () => {
+  class Config {}
+
+  @Injectable({ deps: [Config] })
+  class UserRepository {
+    constructor(public config: Config) {}
+  }
+
+  class UserService {}
+
+  class Mailer {
+    send() {
+      return 'none';
+    }
+  }
+
+  class SmtpMailer extends Mailer {
+    override send() {
+      return 'smtp';
+    }
+  }
+
+  class FakeMailer extends Mailer {
+    override send() {
+      return 'fake';
+    }
+  }
+
+  const PORT = createMetadataKey<number>('port');
+
+  it('should build providers with the matching scopes', () => {
+    const factory = () => 'dsn';
+    const providers = new ServiceCollection()
+      .addSingleton(Config)
+      .addTransient(UserRepository)
+      .addScoped(Mailer, SmtpMailer)
+      .addInstance(PORT, 5432)
+      .addFactory('dsn', factory, [Config, PORT])
+      .build();
+
+    expect(providers).toEqual([
+      { type: 'class', token: Config, useClass: Config, scope: ServiceScope.SINGLETON },
+      { type: 'class', token: UserRepository, useClass: UserRepository, scope: ServiceScope.TRANSIENT },
+      { type: 'class', token: Mailer, useClass: SmtpMailer, scope: ServiceScope.REQUEST },
+      { type: 'value', token: PORT, useValue: 5432 },
+      { type: 'factory', token: 'dsn', useFactory: factory, deps: [Config, PORT] }
+    ]);
+  });
+
+  it('should require an implementation for non-class tokens', () => {
+    expect(() => new ServiceCollection().addSingleton('mailer'))
+      .toThrow(new InvalidProviderError('mailer is not a class, so an implementation is required'));
+  });
+
+  it('should only add with tryAdd when the token is absent', () => {
+    const services = new ServiceCollection()
+      .addSingleton(Mailer, SmtpMailer)
+      .tryAdd({ type: 'class', token: Mailer, useClass: FakeMailer })
+      .tryAdd({ type: 'class', token: Config, useClass: Config });
+
+    expect(services.build().map(provider => provider.token)).toEqual([Mailer, Config]);
+    expect(services.build()[0]).toMatchObject({ useClass: SmtpMailer });
+  });
+
+  it('should replace every provider of a token', () => {
+    const services = new ServiceCollection()
+      .addSingleton(Mailer, SmtpMailer)
+      .addSingleton(Config)
+      .addTransient(Mailer, SmtpMailer)
+      .replace({ type: 'class', token: Mailer, useClass: FakeMailer });
+
+    expect(services.build()).toEqual([
+      { type: 'class', token: Config, useClass: Config, scope: ServiceScope.SINGLETON },
+      { type: 'class', token: Mailer, useClass: FakeMailer }
+    ]);
+  });
+
+  it('should compose collections from feature files', () => {
+    const addData = (services: ServiceCollection) => services.addSingleton(Config).addSingleton(UserRepository);
+    const addUsers = (services: ServiceCollection) => services.addScoped(UserService);
+    const shared = new ServiceCollection().addSingleton(Mailer, SmtpMailer);
+
+    const services = addUsers(addData(new ServiceCollection())).addCollection(shared);
+
+    expect(services.build().map(provider => provider.token)).toEqual([Config, UserRepository, UserService, Mailer]);
+  });
+
+  it('should return a copy from build()', () => {
+    const services = new ServiceCollection().addSingleton(Config);
+
+    services.build().pop();
+
+    expect(services.has(Config)).toBe(true);
+    expect(services.remove(Config)).toBe(true);
+    expect(services.build()).toEqual([]);
+  });
+
+  describe('ContainerFactory.fromCollection', () => {
+    let container: Container;
+
+    afterEach(async () => {
+      await container.dispose();
+    });
+
+    it('should register every provider with the given options', () => {
+      const services = new ServiceCollection()
+        .addSingleton(Config)
+        .addSingleton(UserRepository)
+        .addScoped(UserService)
+        .addSingleton(Mailer, SmtpMailer)
+        .replace({ type: 'class', token: Mailer, useClass: FakeMailer });
+
+      container = ContainerFactory.fromCollection(services, { captiveDependencies: 'throw' }) as Container;
+
+      expect(container.resolve(UserRepository).config).toBe(container.resolve(Config));
+      expect(container.resolve(Mailer).send()).toBe('fake');
+
+      const scope = container.createScope();
+      expect(scope.resolve(UserService)).toBe(scope.resolve(UserService));
+      expect(scope.resolve(UserService)).not.toBe(container.createScope().resolve(UserService));
+    });
+
+    it('should let the last duplicate win', () => {
+      const services = new ServiceCollection()
+        .addSingleton(Mailer, SmtpMailer)
+        .addSingleton(Mailer, FakeMailer);
+
+      container = ContainerFactory.fromCollection(services) as Container;
+
+      expect(container.resolve(Mailer).send()).toBe('fake');
+    });
+  });
+});
@@ -0,0 +1,147 @@
+// Conditional binding tests
+
+import {
+  Container,
+  ContainerError,
+  ServiceScope,
+  Injectable,
+  Inject,
+  createMetadataKey
+} from '../src';
+
+interface Logger {
+  prefix: string;
+}
+
+const LOGGER = createMetadataKey<Logger>('logger');
+
+describe('Conditional Bindings', () => {
+  let container: Container;
+
+  beforeEach(() => {
+    container = new Container();
+  });
+
+  afterEach(async () => {
+    await container.dispose();
+  });
+
+  it('should bind differently depending on the service injected into', () => {
+    class PaymentService {
+      @Inject(LOGGER)
+      logger!: Logger;
+    }
+
+    class UserService {
+      @Inject(LOGGER)
+      logger!: Logger;
+    }
+
+    container.bind(LOGGER).toValue({ prefix: 'plain' });
+    container.bind(LOGGER).toFactory(() => ({ prefix: 'audited' })).whenInjectedInto(PaymentService);
+    container.bind(PaymentService).toSelf().inSingletonScope();
+    container.bind(UserService).toSelf().inSingletonScope();
+
+    expect(container.resolve(PaymentService).logger.prefix).toBe('audited');
+    expect(container.resolve(UserService).logger.prefix).toBe('plain');
+    expect(container.resolve(LOGGER).prefix).toBe('plain');
+  });
+
+  it('should apply to constructor dependencies', () => {
+    @Injectable({ deps: [LOGGER] })
+    class PaymentService {
+      constructor(public logger: Logger) {}
+    }
+
+    @Injectable({ deps: [LOGGER, PaymentService] })
+    class CheckoutService {
+      constructor(public logger: Logger, public payments: PaymentService) {}
+    }
+
+    container.bind(LOGGER).toValue({ prefix: 'plain' });
+    container.bind(LOGGER).toFactory(() => ({ prefix: 'audited' })).whenInjectedInto(PaymentService);
+    container.bind(PaymentService).toSelf().inSingletonScope();
+    container.bind(CheckoutService).toSelf().inSingletonScope();
+
+    const checkout = container.resolve(CheckoutService);
+    expect(checkout.logger.prefix).toBe('plain');
+    expect(checkout.payments.logger.prefix).toBe('audited');
+  });
+
+  it('should match on the name the parent was requested with', () => {
+    class Repository {
+      @Inject(LOGGER)
+      logger!: Logger;
+    }
+
+    class Consumer {
+      @Inject(Repository, { named: 'audit' })
+      audit!: Repository;
+
+      @Inject(Repository)
+      plain!: Repository;
+    }
+
+    container.bind(LOGGER).toValue({ prefix: 'plain' });
+    container.bind(LOGGER).toFactory(() => ({ prefix: 'audited' })).whenParentNamed('audit');
+    container.register({ type: 'class', token: Repository, useClass: Repository }, { scope: ServiceScope.TRANSIENT });
+    container.register({ type: 'class', token: Repository, useClass: Repository }, { scope: ServiceScope.TRANSIENT, name: 'audit' });
+    container.register({ type: 'class', token: Consumer, useClass: Consumer });
+
+    const consumer = container.resolve(Consumer);
+    expect(consumer.audit.logger.prefix).toBe('audited');
+    expect(consumer.plain.logger.prefix).toBe('plain');
+  });
+
+  it('should pass the request chain to custom conditions', () => {
+    class Inner {
+      @Inject(LOGGER)
+      logger!: Logger;
+    }
+
+    class Outer {
+      @Inject(Inner)
+      inner!: Inner;
+    }
+
+    const chains: string[][] = [];
+    container.bind(LOGGER).toFactory(() => ({ prefix: 'nested' })).when(request => {
+      chains.push(request.resolutionStack.map(token => (token as Function).name));
+      return request.resolutionStack.includes(Outer);
+    });
+    container.bind(LOGGER).toValue({ prefix: 'plain' });
+    container.register({ type: 'class', token: Inner, useClass: Inner }, { scope: ServiceScope.TRANSIENT });
+    container.register({ type: 'class', token: Outer, useClass: Outer }, { scope: ServiceScope.TRANSIENT });
+
+    expect(container.resolve(Outer).inner.logger.prefix).toBe('nested');
+    expect(container.resolve(Inner).logger.prefix).toBe('plain');
+    expect(chains[0]).toEqual(['Outer', 'Inner']);
+  });
+
+  it('should report ambiguous conditions', () => {
+    class Consumer {
+      @Inject(LOGGER)
+      logger!: Logger;
+    }
+
+    container.bind(LOGGER).toFactory(() => ({ prefix: 'a' })).whenInjectedInto(Consumer);
+    container.bind(LOGGER).toFactory(() => ({ prefix: 'b' })).when(() => true);
+    container.register({ type: 'class', token: Consumer, useClass: Consumer });
+
+    expect(() => container.resolve(Consumer)).toThrow(ContainerError);
+  });
+
+  it('should select conditional bindings during async resolution', async () => {
+    class PaymentService {
+      @Inject(LOGGER)
+      logger!: Logger;
+    }
+
+    container.bind(LOGGER).toValue({ prefix: 'plain' });
+    container.bind(LOGGER).toFactory(async () => ({ prefix: 'audited' })).whenInjectedInto(PaymentService);
+    container.register({ type: 'class', token: PaymentService, useClass: PaymentService });
+
+    const service = await container.resolveAsync(PaymentService);
+    expect(service.logger.prefix).toBe('audited');
+  });
+});
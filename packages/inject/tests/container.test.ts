@@ -6,6 +6,7 @@ import {
   ServiceScope,
   ServiceNotFoundError,
   CircularDependencyError,
+  RequestScopeError,
   InvalidProviderError,
   Injectable,
   Inject,
@@ -138,6 +139,51 @@ describe('IoC Container', () => {
       const instance2 = container.resolve(TransientService);
       expect(instance1).not.toBe(instance2);
     });
+
+    it('should cache request-scoped services per child container', () => {
+      class RequestContext {}
+
+      container.bind(RequestContext).toSelf().inRequestScope();
+
+      const request1 = container.createChild();
+      const request2 = container.createChild();
+
+      expect(request1.resolve(RequestContext)).toBe(request1.resolve(RequestContext));
+      expect(request1.resolve(RequestContext)).not.toBe(request2.resolve(RequestContext));
+    });
+
+    it('should not resolve request-scoped services from the root container', () => {
+      class RequestContext {}
+
+      container.bind(RequestContext).toSelf().inRequestScope();
+
+      expect(() => container.resolve(RequestContext)).toThrow(RequestScopeError);
+      expect(() => container.resolve(RequestContext))
+        .toThrow('Request-scoped service RequestContext cannot be resolved from the root container');
+      expect(container.createScope().resolve(RequestContext)).toBeInstanceOf(RequestContext);
+    });
+
+    it('should destroy request-scoped services with their child container', async () => {
+      const destroySpy = jest.fn();
+
+      class RequestContext {
+        @PreDestroy
+        cleanup() { destroySpy(); }
+      }
+
+      container.register({
+        type: 'class',
+        token: RequestContext,
+        useClass: RequestContext,
+        scope: ServiceScope.REQUEST
+      });
+
+      const request = container.createChild();
+      request.resolve(RequestContext);
+      await request.dispose();
+
+      expect(destroySpy).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('Dependency Injection with Decorators', () => {
@@ -220,6 +266,75 @@ describe('IoC Container', () => {
     });
   });
 
+  describe('Constructor Injection', () => {
+    it('should inject constructor dependencies declared with @Injectable deps', () => {
+      const configToken = createMetadataKey<{ url: string }>('config');
+
+      class DatabaseService {}
+
+      @Injectable({ deps: [DatabaseService, configToken] })
+      class UserService {
+        constructor(
+          public readonly db: DatabaseService,
+          public readonly config: { url: string }
+        ) {}
+      }
+
+      container.register({ type: 'value', token: configToken, useValue: { url: 'db://test' } });
+      container.register({ type: 'class', token: DatabaseService, useClass: DatabaseService });
+      container.register({ type: 'class', token: UserService, useClass: UserService });
+
+      const instance = container.resolve(UserService);
+      expect(instance.db).toBe(container.resolve(DatabaseService));
+      expect(instance.config.url).toBe('db://test');
+    });
+
+    it('should inject constructor dependencies declared with a static inject tuple', () => {
+      class Logger {}
+
+      class ReportService {
+        static inject = [Logger, 'report-name'] as const;
+
+        constructor(public readonly logger: Logger, public readonly name: string) {}
+      }
+
+      container.register({ type: 'class', token: Logger, useClass: Logger });
+      container.register({ type: 'value', token: 'report-name', useValue: 'daily' });
+      container.register({ type: 'class', token: ReportService, useClass: ReportService });
+
+      const instance = container.resolve(ReportService);
+      expect(instance.logger).toBeInstanceOf(Logger);
+      expect(instance.name).toBe('daily');
+    });
+
+    it('should auto-bind constructor dependencies of injectable classes', () => {
+      class Repository {}
+
+      @Injectable({ deps: [Repository] })
+      class Service {
+        constructor(public readonly repository: Repository) {}
+      }
+
+      container.register({ type: 'class', token: Service, useClass: Service });
+
+      expect(container.has(Repository)).toBe(true);
+      expect(container.resolve(Service).repository).toBeInstanceOf(Repository);
+    });
+
+    it('should reject deps that do not match the constructor signature', () => {
+      class Clock {}
+      const nameToken = createMetadataKey<string>('name');
+
+      // @ts-expect-error - the second parameter expects a number, the token provides a string
+      @Injectable({ deps: [Clock, nameToken] })
+      class Timer {
+        constructor(public readonly clock: Clock, public readonly interval: number) {}
+      }
+
+      expect(Timer).toBeDefined();
+    });
+  });
+
   describe('Fluent Binding API', () => {
     it('should support fluent binding with bind().to()', () => {
       class TestService {
@@ -339,6 +454,34 @@ describe('IoC Container', () => {
     });
   });
 
+  describe('Injectable Scope Metadata', () => {
+    it('should use the @Injectable scope for class providers', () => {
+      @Injectable('transient')
+      class TransientController {}
+
+      container.register({
+        type: 'class',
+        token: TransientController,
+        useClass: TransientController
+      });
+
+      expect(container.resolve(TransientController)).not.toBe(container.resolve(TransientController));
+    });
+
+    it('should let explicit scopes override the @Injectable scope', () => {
+      @Injectable('transient')
+      class OverriddenService {}
+
+      container.register({
+        type: 'class',
+        token: OverriddenService,
+        useClass: OverriddenService
+      }, { scope: ServiceScope.SINGLETON });
+
+      expect(container.resolve(OverriddenService)).toBe(container.resolve(OverriddenService));
+    });
+  });
+
   describe('Child Containers', () => {
     it('should create child containers', () => {
       const child = container.createChild();
@@ -391,6 +534,19 @@ describe('IoC Container', () => {
       expect(childInstance.getValue()).toBe('child');
     });
 
+    it('should share parent singletons with child containers', () => {
+      class SharedService {}
+
+      container.register({
+        type: 'class',
+        token: SharedService,
+        useClass: SharedService
+      });
+
+      const child = container.createChild();
+      expect(child.resolve(SharedService)).toBe(container.resolve(SharedService));
+    });
+
     it('should dispose child containers when parent is disposed', async () => {
       const child1 = container.createChild();
       const child2 = container.createChild();
@@ -0,0 +1,196 @@
+// Contextual binding tests
+
+import {
+  Container,
+  ContainerError,
+  ServiceNotFoundError,
+  ServiceScope,
+  Inject
+} from '../src';
+
+abstract class Cache {
+  abstract readonly kind: string;
+}
+
+class RedisCache extends Cache {
+  readonly kind = 'redis';
+}
+
+class MemoryCache extends Cache {
+  readonly kind = 'memory';
+}
+
+describe('Contextual Bindings', () => {
+  let container: Container;
+
+  beforeEach(() => {
+    container = new Container();
+  });
+
+  afterEach(async () => {
+    await container.dispose();
+  });
+
+  describe('named bindings', () => {
+    it('should inject the binding matching @Inject named', () => {
+      class ReportService {
+        @Inject(Cache, { named: 'primary' })
+        primary!: Cache;
+
+        @Inject(Cache, { named: 'fallback' })
+        fallback!: Cache;
+      }
+
+      container.bind(Cache).to(RedisCache).named('primary');
+      container.bind(Cache).to(MemoryCache).named('fallback');
+      container.register({ type: 'class', token: ReportService, useClass: ReportService });
+
+      const service = container.resolve(ReportService);
+      expect(service.primary.kind).toBe('redis');
+      expect(service.fallback.kind).toBe('memory');
+    });
+
+    it('should keep plain registrations for unconstrained injection sites', () => {
+      class ReportService {
+        @Inject(Cache)
+        cache!: Cache;
+
+        @Inject(Cache, { named: 'primary' })
+        primary!: Cache;
+      }
+
+      container.bind(Cache).to(MemoryCache).inSingletonScope();
+      container.bind(Cache).to(RedisCache).named('primary');
+      container.register({ type: 'class', token: ReportService, useClass: ReportService }, { scope: ServiceScope.TRANSIENT });
+
+      const service = container.resolve(ReportService);
+      expect(service.cache.kind).toBe('memory');
+      expect(service.primary.kind).toBe('redis');
+      expect(container.resolve(Cache)).toBe(service.cache);
+    });
+
+    it('should cache contextual singletons per binding', () => {
+      class Consumer {
+        @Inject(Cache, { named: 'primary' })
+        cache!: Cache;
+      }
+
+      container.bind(Cache).to(RedisCache).named('primary');
+      container.register({ type: 'class', token: Consumer, useClass: Consumer }, { scope: ServiceScope.TRANSIENT });
+
+      expect(container.resolve(Consumer).cache).toBe(container.resolve(Consumer).cache);
+    });
+
+    it('should throw when no binding matches the name', () => {
+      class Consumer {
+        @Inject(Cache, { named: 'missing' })
+        cache!: Cache;
+      }
+
+      container.bind(Cache).to(RedisCache).named('primary');
+      container.register({ type: 'class', token: Consumer, useClass: Consumer });
+
+      expect(() => container.resolve(Consumer)).toThrow(ServiceNotFoundError);
+    });
+
+    it('should leave optional injections unset when no binding matches', () => {
+      class Consumer {
+        @Inject(Cache, { named: 'missing', optional: true })
+        cache?: Cache;
+      }
+
+      container.register({ type: 'class', token: Consumer, useClass: Consumer });
+
+      expect(container.resolve(Consumer).cache).toBeUndefined();
+    });
+
+    it('should prefer bindings from the nearest container', () => {
+      class Consumer {
+        @Inject(Cache, { named: 'primary' })
+        cache!: Cache;
+      }
+
+      container.bind(Cache).to(RedisCache).named('primary');
+      const child = container.createChild();
+      child.bind(Cache).to(MemoryCache).named('primary');
+      child.register({ type: 'class', token: Consumer, useClass: Consumer });
+
+      expect(child.resolve(Consumer).cache.kind).toBe('memory');
+    });
+  });
+
+  describe('tagged bindings', () => {
+    it('should inject the binding matching all tags', () => {
+      class Consumer {
+        @Inject(Cache, { tagged: { region: 'eu' } })
+        eu!: Cache;
+
+        @Inject(Cache, { tagged: { region: 'us' } })
+        us!: Cache;
+      }
+
+      container.bind(Cache).to(RedisCache).whenTagged('region', 'eu');
+      container.bind(Cache).to(MemoryCache).whenTagged('region', 'us');
+      container.register({ type: 'class', token: Consumer, useClass: Consumer });
+
+      const consumer = container.resolve(Consumer);
+      expect(consumer.eu.kind).toBe('redis');
+      expect(consumer.us.kind).toBe('memory');
+    });
+
+    it('should report ambiguous bindings', () => {
+      class Consumer {
+        @Inject(Cache, { tagged: { region: 'eu' } })
+        cache!: Cache;
+      }
+
+      container.bind(Cache).to(RedisCache).whenTagged('region', 'eu');
+      container.bind(Cache).to(MemoryCache).whenTagged('region', 'eu');
+      container.register({ type: 'class', token: Consumer, useClass: Consumer });
+
+      expect(() => container.resolve(Consumer)).toThrow(ContainerError);
+      expect(() => container.resolve(Consumer)).toThrow('Ambiguous binding for Cache');
+    });
+
+    it('should select contextual bindings during async resolution', async () => {
+      class Consumer {
+        @Inject(Cache, { tagged: { region: 'eu' } })
+        cache!: Cache;
+      }
+
+      container.bind(Cache).to(RedisCache).whenTagged('region', 'eu');
+      container.register({ type: 'class', token: Consumer, useClass: Consumer });
+
+      const consumer = await container.resolveAsync(Consumer);
+      expect(consumer.cache.kind).toBe('redis');
+    });
+  });
+
+  describe('resolveByTag', () => {
+    it('should resolve every service listing the tag', () => {
+      container.register({ type: 'class', token: RedisCache, useClass: RedisCache }, { tags: ['cache'] });
+      container.register({ type: 'class', token: MemoryCache, useClass: MemoryCache }, { tags: ['cache', 'local'] });
+      container.register({ type: 'value', token: 'config', useValue: {} });
+
+      const caches = container.resolveByTag<Cache>('cache');
+      expect(caches.map(cache => cache.kind)).toEqual(['redis', 'memory']);
+      expect(caches[0]).toBe(container.resolve(RedisCache));
+    });
+
+    it('should include contextual bindings tagged with the key', () => {
+      container.bind(Cache).to(RedisCache).whenTagged('region', 'eu');
+      container.bind(Cache).to(MemoryCache).whenTagged('region', 'us');
+
+      expect(container.resolveByTag<Cache>('region').map(cache => cache.kind)).toEqual(['redis', 'memory']);
+    });
+
+    it('should include services registered in parent containers', () => {
+      container.register({ type: 'class', token: RedisCache, useClass: RedisCache }, { tags: ['cache'] });
+      const child = container.createChild();
+      child.register({ type: 'class', token: MemoryCache, useClass: MemoryCache }, { tags: ['cache'] });
+
+      expect(child.resolveByTag<Cache>('cache').map(cache => cache.kind)).toEqual(['redis', 'memory']);
+      expect(container.resolveByTag('unknown')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,498 @@
+// Disposal tests
+
+import {
+  Container,
+  ContainerEvent,
+  ContainerEventData,
+  Injectable,
+  Module,
+  PreDestroy,
+  DisposalTimeoutError,
+  ServiceScope,
+  disposeOnSignals
+} from '../src';
+
+describe('Disposal', () => {
+  let container: Container;
+  let disposed: string[];
+
+  beforeEach(() => {
+    container = new Container();
+    disposed = [];
+  });
+
+  afterEach(async () => {
+    await container.dispose().catch(() => undefined);
+  });
+
+  it('should dispose dependents before their dependencies', async () => {
+    class Config {
+      @PreDestroy
+      close() {
+        disposed.push('Config');
+      }
+    }
+
+    @Injectable({ deps: [Config] })
+    class Database {
+      constructor(public config: Config) {}
+
+      @PreDestroy
+      close() {
+        disposed.push('Database');
+      }
+    }
+
+    @Injectable({ deps: [Database] })
+    class UserRepository {
+      constructor(public db: Database) {}
+
+      @PreDestroy
+      close() {
+        disposed.push('UserRepository');
+      }
+    }
+    new UserRepository(new Database(new Config())); // record lifecycle metadata
+
+    container.register({ type: 'class', token: Config, useClass: Config });
+    container.register({ type: 'class', token: Database, useClass: Database });
+    container.register({ type: 'class', token: UserRepository, useClass: UserRepository });
+
+    // Resolve the leaf last so creation order does not match dependency order
+    container.resolve(UserRepository);
+    container.resolve(Config);
+
+    await container.dispose();
+
+    expect(disposed).toEqual(['UserRepository', 'Database', 'Config']);
+  });
+
+  it('should await async @PreDestroy methods and onDeactivation hooks', async () => {
+    class Connection {
+      @PreDestroy
+      async close() {
+        await new Promise(resolve => setTimeout(resolve, 5));
+        disposed.push('close');
+      }
+    }
+    new Connection();
+
+    container.register({ type: 'class', token: Connection, useClass: Connection }, {
+      onDeactivation: async () => {
+        await new Promise(resolve => setTimeout(resolve, 5));
+        disposed.push('onDeactivation');
+      }
+    });
+    container.resolve(Connection);
+
+    await container.dispose();
+
+    expect(disposed).toEqual(['close', 'onDeactivation']);
+  });
+
+  it('should time out hooks that never settle', async () => {
+    container = new Container({ disposeTimeout: 10 });
+
+    class Stuck {
+      @PreDestroy
+      close() {
+        return new Promise(() => undefined);
+      }
+    }
+    new Stuck();
+
+    container.register({ type: 'class', token: Stuck, useClass: Stuck });
+    container.resolve(Stuck);
+
+    const error = await container.dispose().catch(error => error);
+
+    expect(error).toBeInstanceOf(AggregateError);
+    expect(error.errors).toHaveLength(1);
+    expect(error.errors[0]).toBeInstanceOf(DisposalTimeoutError);
+    expect(error.errors[0].message).toBe('Disposal hook @PreDestroy close() of Stuck did not finish within 10ms');
+  });
+
+  it('should run every hook and aggregate the failures', async () => {
+    container.register({ type: 'factory', token: 'a', useFactory: () => ({}) }, {
+      onDeactivation: () => {
+        throw new Error('a failed');
+      }
+    });
+    container.register({ type: 'factory', token: 'b', useFactory: () => ({}) }, {
+      onDeactivation: () => {
+        disposed.push('b');
+      }
+    });
+    container.register({ type: 'factory', token: 'c', useFactory: () => ({}) }, {
+      onDeactivation: async () => {
+        throw new Error('c failed');
+      }
+    });
+    container.resolve('a');
+    container.resolve('b');
+    container.resolve('c');
+
+    const error = await container.dispose().catch(error => error);
+
+    expect(disposed).toEqual(['b']);
+    expect(error).toBeInstanceOf(AggregateError);
+    expect(error.message).toBe('2 disposal hooks failed');
+    expect(error.errors.map((error: Error) => error.message).sort()).toEqual(['a failed', 'c failed']);
+    expect(() => container.resolve('a')).toThrow('Container has been disposed');
+  });
+
+  it('should include failures from child containers', async () => {
+    const child = container.createChild();
+    child.register({ type: 'factory', token: 'child', useFactory: () => ({}) }, {
+      onDeactivation: () => {
+        throw new Error('child failed');
+      }
+    });
+    child.resolve('child');
+
+    const error = await container.dispose().catch(error => error);
+
+    expect(error.errors.map((error: Error) => error.message)).toEqual(['child failed']);
+  });
+
+  describe('unbind and clear', () => {
+    class Connection {
+      @PreDestroy
+      async close() {
+        await Promise.resolve();
+        throw new Error('close failed');
+      }
+    }
+
+    it('should emit failures of async hooks that unbind does not await', async () => {
+      const failures: ContainerEventData[] = [];
+      container.on(ContainerEvent.DISPOSAL_FAILED, data => {
+        failures.push(data);
+      });
+      container.register({ type: 'class', token: Connection, useClass: Connection });
+      container.resolve(Connection);
+
+      expect(container.unbind(Connection)).toBe(true);
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(failures).toHaveLength(1);
+      expect(failures[0].token).toBe(Connection);
+      expect((failures[0].error as Error).message).toBe('close failed');
+
+      const error = await container.dispose().catch(error => error);
+      expect(error.errors.map((error: Error) => error.message)).toEqual(['close failed']);
+    });
+
+    it('should await async hooks with unbindAsync', async () => {
+      container.register({ type: 'class', token: Connection, useClass: Connection });
+      container.resolve(Connection);
+
+      const error = await container.unbindAsync(Connection).catch(error => error);
+
+      expect(error).toBeInstanceOf(AggregateError);
+      expect(error.errors.map((error: Error) => error.message)).toEqual(['close failed']);
+      expect(container.has(Connection)).toBe(false);
+      await expect(container.unbindAsync(Connection)).resolves.toBe(false);
+    });
+
+    it('should await async hooks in disposal order with clearAsync', async () => {
+      class Config {
+        @PreDestroy
+        async close() {
+          await Promise.resolve();
+          disposed.push('Config');
+        }
+      }
+
+      @Injectable({ deps: [Config] })
+      class Database {
+        constructor(public config: Config) {}
+
+        @PreDestroy
+        async close() {
+          await Promise.resolve();
+          disposed.push('Database');
+        }
+      }
+
+      container.register({ type: 'class', token: Config, useClass: Config });
+      container.register({ type: 'class', token: Database, useClass: Database });
+      container.resolve(Database);
+
+      await container.clearAsync();
+
+      expect(disposed).toEqual(['Database', 'Config']);
+      expect(container.getServices()).toEqual([]);
+    });
+  });
+
+  describe('trackDisposables', () => {
+    it('should dispose transient instances created by a tracking child', async () => {
+      class Transaction {
+        @PreDestroy
+        rollback() {
+          disposed.push('rollback');
+        }
+      }
+      new Transaction();
+
+      container.register({ type: 'class', token: Transaction, useClass: Transaction }, { scope: ServiceScope.TRANSIENT });
+      const scope = container.createChild({ trackDisposables: true });
+
+      const first = scope.resolve(Transaction);
+      const second = scope.resolve(Transaction);
+      expect(first).not.toBe(second);
+
+      await scope.dispose();
+
+      expect(disposed).toEqual(['rollback', 'rollback']);
+    });
+
+    it('should not track instances unless enabled', async () => {
+      container.register({ type: 'factory', token: 'job', useFactory: () => ({}) }, {
+        scope: ServiceScope.PROTOTYPE,
+        onDeactivation: () => {
+          disposed.push('job');
+        }
+      });
+      const child = container.createChild();
+      child.resolve('job');
+
+      await child.dispose();
+
+      expect(disposed).toEqual([]);
+    });
+
+    it('should dispose tracked instances before the services they depend on', async () => {
+      class Connection {
+        @PreDestroy
+        close() {
+          disposed.push('Connection');
+        }
+      }
+
+      @Injectable({ deps: [Connection] })
+      class Transaction {
+        constructor(public connection: Connection) {}
+
+        @PreDestroy
+        rollback() {
+          disposed.push('Transaction');
+        }
+      }
+      new Transaction(new Connection());
+
+      const scope = container.createChild({ trackDisposables: true });
+      scope.register({ type: 'class', token: Connection, useClass: Connection });
+      scope.register({ type: 'class', token: Transaction, useClass: Transaction }, { scope: ServiceScope.TRANSIENT });
+      scope.resolve(Transaction);
+
+      await scope.dispose();
+
+      expect(disposed).toEqual(['Transaction', 'Connection']);
+    });
+
+    it('should recognize Symbol.dispose and Symbol.asyncDispose', async () => {
+      class FileHandle {
+        [Symbol.dispose]() {
+          disposed.push('dispose');
+        }
+      }
+
+      class Socket {
+        async [Symbol.asyncDispose]() {
+          disposed.push('asyncDispose');
+        }
+
+        [Symbol.dispose]() {
+          disposed.push('sync fallback');
+        }
+      }
+
+      container.register({ type: 'class', token: FileHandle, useClass: FileHandle }, { scope: ServiceScope.TRANSIENT });
+      container.register({ type: 'class', token: Socket, useClass: Socket });
+      const scope = container.createChild({ trackDisposables: true });
+      scope.resolve(FileHandle);
+      container.resolve(Socket);
+
+      await scope.dispose();
+      expect(disposed).toEqual(['dispose']);
+
+      await container.dispose();
+      expect(disposed).toEqual(['dispose', 'asyncDispose']);
+    });
+
+    it('should leave module exports and aliases to the container owning them', async () => {
+      class Database {
+        @PreDestroy
+        close() {
+          disposed.push('Database');
+        }
+      }
+      new Database();
+
+      @Module({ providers: [Database], exports: [Database] })
+      class DatabaseModule {}
+
+      container.loadModule(DatabaseModule);
+      container.register({ type: 'existing', token: 'db', useExisting: Database }, { scope: ServiceScope.TRANSIENT });
+
+      const first = container.createScope();
+      const database = first.resolve(Database);
+      expect(first.resolve('db')).toBe(database);
+      await first.dispose();
+
+      const second = container.createScope();
+      expect(second.resolve(Database)).toBe(database);
+      await second.dispose();
+      expect(disposed).toEqual([]);
+
+      await container.dispose();
+      expect(disposed).toEqual(['Database']);
+    });
+
+    it('should skip instances that need no cleanup', async () => {
+      const events: unknown[] = [];
+      container.on('service:disposed', event => events.push(event.token));
+      container.register({ type: 'factory', token: 'plain', useFactory: () => ({}) }, { scope: ServiceScope.TRANSIENT });
+      const scope = container.createChild({ trackDisposables: true });
+      scope.resolve('plain');
+
+      await scope.dispose();
+
+      expect(events).toEqual([]);
+    });
+  });
+
+  describe('explicit resource management', () => {
+    class Session {
+      @PreDestroy
+      async close() {
+        await new Promise(resolve => setTimeout(resolve, 5));
+        disposed.push('Session');
+      }
+    }
+
+    beforeEach(() => {
+      new Session(); // record lifecycle metadata
+      container.register({ type: 'class', token: Session, useClass: Session }, { scope: ServiceScope.TRANSIENT });
+    });
+
+    it('should dispose a scope at the end of an await using block', async () => {
+      {
+        await using scope = container.createScope();
+        scope.resolve(Session);
+        scope.resolve(Session);
+        expect(disposed).toEqual([]);
+      }
+
+      expect(disposed).toEqual(['Session', 'Session']);
+    });
+
+    it('should let createScope options override the defaults', async () => {
+      {
+        await using scope = container.createScope({ trackDisposables: false });
+        scope.resolve(Session);
+      }
+
+      expect(disposed).toEqual([]);
+    });
+
+    it('should dispose synchronously with using', () => {
+      container.register({ type: 'factory', token: 'handle', useFactory: () => ({}) }, {
+        scope: ServiceScope.TRANSIENT,
+        onDeactivation: () => {
+          disposed.push('handle');
+        }
+      });
+
+      {
+        using scope = container.createScope();
+        scope.resolve('handle');
+      }
+
+      expect(disposed).toEqual(['handle']);
+    });
+
+    it('should dispose the whole container with await using', async () => {
+      const events: string[] = [];
+
+      {
+        await using root = new Container();
+        root.on('container:disposed', () => events.push('disposed'));
+        root.createScope();
+      }
+
+      expect(events).toEqual(['disposed', 'disposed']);
+    });
+
+    it('should report sync disposal failures as an AggregateError', () => {
+      const scope = container.createScope();
+      scope.register({ type: 'factory', token: 'broken', useFactory: () => ({}) }, {
+        onDeactivation: () => {
+          throw new Error('broken');
+        }
+      });
+      scope.resolve('broken');
+
+      expect(() => scope[Symbol.dispose]()).toThrow(AggregateError);
+      expect(() => scope.resolve('broken')).toThrow('Container has been disposed');
+    });
+  });
+
+  describe('disposeOnSignals', () => {
+    let exit: jest.SpyInstance;
+
+    beforeEach(() => {
+      exit = jest.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+    });
+
+    afterEach(() => {
+      exit.mockRestore();
+    });
+
+    it('should dispose the root container and exit on a signal', async () => {
+      const child = container.createChild();
+      container.register({ type: 'factory', token: 'service', useFactory: () => ({}) }, {
+        onDeactivation: () => {
+          disposed.push('service');
+        }
+      });
+      container.resolve('service');
+
+      disposeOnSignals(child, { signals: ['SIGUSR2'] });
+      process.emit('SIGUSR2', 'SIGUSR2');
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(disposed).toEqual(['service']);
+      expect(exit).toHaveBeenCalledWith(0);
+      expect(process.listenerCount('SIGUSR2')).toBe(0);
+    });
+
+    it('should report disposal failures and exit with an error code', async () => {
+      const onError = jest.fn();
+      container.register({ type: 'factory', token: 'service', useFactory: () => ({}) }, {
+        onDeactivation: () => {
+          throw new Error('failed');
+        }
+      });
+      container.resolve('service');
+
+      disposeOnSignals(container, { signals: ['SIGUSR2'], onError });
+      process.emit('SIGUSR2', 'SIGUSR2');
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(onError).toHaveBeenCalledWith(expect.any(AggregateError));
+      expect(exit).toHaveBeenCalledWith(1);
+    });
+
+    it('should remove its listeners when unregistered', () => {
+      const before = process.listenerCount('SIGTERM');
+      const remove = disposeOnSignals(container, { exit: false });
+
+      expect(process.listenerCount('SIGTERM')).toBe(before + 1);
+      remove();
+      expect(process.listenerCount('SIGTERM')).toBe(before);
+    });
+  });
+});
@@ -0,0 +1,97 @@
+// Graph exporter tests
+
+import {
+  Container,
+  ServiceScope,
+  exportGraphToDot,
+  exportGraphToMermaid
+} from '../src';
+
+describe('Graph Exporters', () => {
+  let container: Container;
+
+  beforeEach(() => {
+    container = new Container();
+    container.register({ type: 'value', token: 'config', useValue: {} });
+    container.register({ type: 'factory', token: 'database', useFactory: () => ({}), deps: ['config'] });
+  });
+
+  afterEach(async () => {
+    await container.dispose();
+  });
+
+  describe('DOT', () => {
+    it('should render nodes with token, scope and provider type', () => {
+      const dot = exportGraphToDot(container);
+
+      expect(dot).toContain('digraph Container {');
+      expect(dot).toContain('subgraph cluster_container_0 {');
+      expect(dot).toContain('n0 [label="config\\nsingleton | value"];');
+      expect(dot).toContain('n1 [label="database\\nsingleton | factory"];');
+      expect(dot).toContain('n1 -> n0;');
+    });
+
+    it('should render child containers as nested clusters', () => {
+      const child = container.createChild();
+      child.register({ type: 'factory', token: 'context', useFactory: () => ({}), deps: ['database'], scope: ServiceScope.REQUEST });
+
+      const dot = exportGraphToDot(container);
+
+      expect(dot).toContain('    subgraph cluster_container_0_1 {');
+      expect(dot).toContain('n2 [label="context\\nrequest | factory"];');
+      expect(dot).toContain('n2 -> n1;');
+    });
+
+    it('should highlight cycle edges and missing tokens', () => {
+      container.register({ type: 'factory', token: 'a', useFactory: () => ({}), deps: ['b'] });
+      container.register({ type: 'factory', token: 'b', useFactory: () => ({}), deps: ['a', 'unknown'] });
+
+      const dot = exportGraphToDot(container);
+
+      expect(dot).toContain('n2 -> n3 [color=red, penwidth=2];');
+      expect(dot).toContain('n3 -> n2 [color=red, penwidth=2];');
+      expect(dot).toContain('n4 [label="unknown\\n(missing)", style=dashed, color=red];');
+      expect(dot).toContain('n3 -> n4;');
+    });
+  });
+
+  describe('Mermaid', () => {
+    it('should render a flowchart with nested subgraphs', () => {
+      container.createChild().register({ type: 'value', token: 'child-value', useValue: 1 });
+
+      const mermaid = exportGraphToMermaid(container);
+
+      expect(mermaid.split('\n')).toEqual([
+        'flowchart LR',
+        '  subgraph container_0["Container"]',
+        '    n0["config<br/>singleton | value"]',
+        '    n1["database<br/>singleton | factory"]',
+        '    subgraph container_0_1["Container / child 1"]',
+        '      n2["child-value<br/>singleton | value"]',
+        '    end',
+        '  end',
+        '  n1 --> n0'
+      ]);
+    });
+
+    it('should style cycle edges and missing tokens', () => {
+      container.register({ type: 'existing', token: 'alias', useExisting: 'alias-target' });
+      container.register({ type: 'existing', token: 'loop', useExisting: 'loop' });
+
+      const mermaid = exportGraphToMermaid(container);
+
+      expect(mermaid).toContain('n4["alias-target<br/>(missing)"]:::missing');
+      expect(mermaid).toContain('linkStyle 2 stroke:red,stroke-width:2px');
+      expect(mermaid).toContain('classDef missing stroke:red,stroke-dasharray:5 5');
+    });
+  });
+
+  it('should show inherited dependencies when exporting a child container', () => {
+    const child = container.createChild();
+    child.register({ type: 'factory', token: 'service', useFactory: () => ({}), deps: ['database'] });
+
+    const dot = exportGraphToDot(child);
+
+    expect(dot).toContain('[label="database\\nsingleton | factory", style=dotted];');
+  });
+});
@@ -0,0 +1,145 @@
+// Dependency graph and validation tests
+
+import {
+  Container,
+  ServiceScope,
+  Injectable,
+  Inject,
+  PERFORMANCE_CONSTANTS
+} from '../src';
+
+describe('Dependency Graph', () => {
+  let container: Container;
+
+  beforeEach(() => {
+    container = new Container({ autoBindInjectable: false });
+  });
+
+  afterEach(async () => {
+    await container.dispose();
+  });
+
+  it('should build the graph without instantiating anything', () => {
+    const constructed = jest.fn();
+
+    class Config {}
+
+    @Injectable({ deps: [Config] })
+    class Database {
+      constructor(public readonly config: Config) {
+        constructed();
+      }
+    }
+
+    container.register({ type: 'class', token: Config, useClass: Config });
+    container.register({ type: 'class', token: Database, useClass: Database });
+    container.register({ type: 'factory', token: 'repository', useFactory: (db: Database) => ({ db }), deps: [Database] });
+
+    const graph = container.getDependencyGraph();
+
+    expect(constructed).not.toHaveBeenCalled();
+    expect([...graph.get(Database)!.dependencies]).toEqual([Config]);
+    expect([...graph.get(Database)!.dependents]).toEqual(['repository']);
+    expect(graph.get('repository')!.depth).toBe(2);
+    expect(graph.get(Config)!.depth).toBe(0);
+  });
+
+  it('should include registrations from parent containers', () => {
+    container.register({ type: 'value', token: 'config', useValue: {} });
+
+    const child = container.createChild();
+    child.register({ type: 'factory', token: 'service', useFactory: () => ({}), deps: ['config'] });
+
+    const report = child.validate();
+    expect(report.valid).toBe(true);
+    expect(report.graph.has('config')).toBe(true);
+  });
+
+  it('should report missing tokens', () => {
+    container.register({ type: 'factory', token: 'service', useFactory: () => ({}), deps: ['missing'] });
+
+    const report = container.validate();
+
+    expect(report.valid).toBe(false);
+    expect(report.issues).toEqual([
+      expect.objectContaining({ type: 'missing', token: 'missing', chain: ['service', 'missing'] })
+    ]);
+    expect(report.graph.get('missing')!.registration).toBeUndefined();
+  });
+
+  it('should see @Inject properties of classes never instantiated', () => {
+    class Config {}
+
+    class Service {
+      @Inject('missing-token')
+      missing!: unknown;
+
+      @Inject(Config)
+      config!: Config;
+
+      @Inject('optional-token', true)
+      optional?: unknown;
+    }
+
+    class AuditedService extends Service {
+      @Inject('audit-log')
+      audit!: unknown;
+    }
+
+    container.register({ type: 'class', token: Config, useClass: Config });
+    container.register({ type: 'class', token: Service, useClass: Service });
+    container.register({ type: 'class', token: AuditedService, useClass: AuditedService });
+
+    const report = container.validate();
+
+    expect(report.valid).toBe(false);
+    expect(report.issues.map(issue => issue.chain)).toEqual([
+      [Service, 'missing-token'],
+      [AuditedService, 'missing-token'],
+      [AuditedService, 'audit-log']
+    ]);
+    expect([...report.graph.get(Service)!.dependencies]).toEqual(['missing-token', Config, 'optional-token']);
+  });
+
+  it('should report cycles with the full chain', () => {
+    container.register({ type: 'factory', token: 'a', useFactory: () => ({}), deps: ['b'] });
+    container.register({ type: 'factory', token: 'b', useFactory: () => ({}), deps: ['c'] });
+    container.register({ type: 'existing', token: 'c', useExisting: 'a' });
+
+    const report = container.validate();
+    const cycles = report.issues.filter(issue => issue.type === 'circular');
+
+    expect(cycles).toHaveLength(1);
+    expect(cycles[0]!.chain).toEqual(['a', 'b', 'c', 'a']);
+    expect(cycles[0]!.message).toBe('Circular dependency detected: a -> b -> c -> a');
+  });
+
+  it('should report scope violations', () => {
+    container.register({ type: 'factory', token: 'context', useFactory: () => ({}), scope: ServiceScope.REQUEST });
+    container.register({ type: 'factory', token: 'cache', useFactory: () => ({}), deps: ['context'], scope: ServiceScope.SINGLETON });
+
+    const report = container.validate();
+
+    expect(report.issues).toEqual([
+      expect.objectContaining({
+        type: 'scope',
+        token: 'cache',
+        chain: ['cache', 'context'],
+        message: 'singleton service cache depends on request service context'
+      })
+    ]);
+  });
+
+  it('should report chains deeper than the maximum resolution depth', () => {
+    const length = PERFORMANCE_CONSTANTS.MAX_RESOLUTION_DEPTH + 2;
+    container.register({ type: 'value', token: 'service-0', useValue: 0 });
+    for (let i = 1; i < length; i++) {
+      container.register({ type: 'factory', token: `service-${i}`, useFactory: () => i, deps: [`service-${i - 1}`] });
+    }
+
+    const report = container.validate();
+
+    expect(report.issues.map(issue => issue.token)).toEqual([`service-${length - 1}`]);
+    expect(report.issues[0]!.type).toBe('depth');
+  });
+});
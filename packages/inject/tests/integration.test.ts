@@ -509,7 +509,7 @@ describe('Performance and Scalability', () => {
 
     // Resolve the same service concurrently
     const promises = Array.from({ length: 10 }, () => 
-      container.resolve(ConcurrentService)
+      container.resolveAsync(ConcurrentService)
     );
 
     const instances = await Promise.all(promises);
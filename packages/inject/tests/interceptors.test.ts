@@ -0,0 +1,318 @@
+// Interceptor tests
+
+import {
+  Container,
+  Inject,
+  Intercept,
+  IInterceptor,
+  InvocationContext,
+  ServiceScope
+} from '../src';
+
+describe('Interceptors', () => {
+  let container: Container;
+  let calls: string[];
+
+  class RecordingInterceptor implements IInterceptor {
+    intercept(invocation: InvocationContext) {
+      calls.push(`before ${String(invocation.method)}`);
+      const result = invocation.proceed();
+      calls.push(`after ${String(invocation.method)}`);
+      return result;
+    }
+  }
+
+  beforeEach(() => {
+    container = new Container();
+    calls = [];
+  });
+
+  afterEach(async () => {
+    await container.dispose();
+  });
+
+  describe('@Intercept', () => {
+    it('should wrap every method of a decorated class, including calls through this', () => {
+      @Intercept(RecordingInterceptor)
+      class Calculator {
+        add(a: number, b: number) {
+          return a + b;
+        }
+
+        double(a: number) {
+          return this.add(a, a);
+        }
+      }
+
+      container.register({ type: 'class', token: Calculator, useClass: Calculator });
+      const calculator = container.resolve(Calculator);
+
+      expect(calculator.double(2)).toBe(4);
+      expect(calls).toEqual(['before double', 'before add', 'after add', 'after double']);
+      expect(calculator).toBeInstanceOf(Calculator);
+    });
+
+    it('should wrap only decorated methods', () => {
+      class Service {
+        @Intercept(RecordingInterceptor)
+        audited() {
+          return 'audited';
+        }
+
+        plain() {
+          return 'plain';
+        }
+      }
+
+      container.register({ type: 'class', token: Service, useClass: Service });
+      const service = container.resolve(Service);
+
+      service.plain();
+      expect(service.audited()).toBe('audited');
+      expect(calls).toEqual(['before audited', 'after audited']);
+    });
+
+    it('should resolve interceptors from the container', () => {
+      const PREFIX = 'prefix';
+
+      class PrefixInterceptor implements IInterceptor {
+        static inject = [PREFIX] as const;
+
+        constructor(private prefix: string) {}
+
+        intercept(invocation: InvocationContext) {
+          return `${this.prefix}:${invocation.proceed()}`;
+        }
+      }
+
+      @Intercept(PrefixInterceptor)
+      class Greeter {
+        greet() {
+          return 'hello';
+        }
+      }
+
+      container.register({ type: 'value', token: PREFIX, useValue: 'app' });
+      container.register({ type: 'class', token: PrefixInterceptor, useClass: PrefixInterceptor });
+      container.register({ type: 'class', token: Greeter, useClass: Greeter });
+
+      expect(container.resolve(Greeter).greet()).toBe('app:hello');
+    });
+
+    it('should apply interceptors outermost first', () => {
+      const order = (name: string) => class implements IInterceptor {
+        intercept(invocation: InvocationContext) {
+          calls.push(name);
+          return invocation.proceed();
+        }
+      };
+      const Outer = order('outer');
+      const Inner = order('inner');
+      const MethodLevel = order('method');
+
+      @Intercept(Outer, Inner)
+      class Service {
+        @Intercept(MethodLevel)
+        run() {
+          calls.push('run');
+        }
+      }
+
+      container.register({ type: 'class', token: Service, useClass: Service });
+      container.resolve(Service).run();
+
+      expect(calls).toEqual(['outer', 'inner', 'method', 'run']);
+    });
+  });
+
+  describe('invocation context', () => {
+    it('should let interceptors replace arguments and return values', () => {
+      class DoubleArgs implements IInterceptor {
+        intercept(invocation: InvocationContext) {
+          invocation.args = invocation.args.map(arg => arg * 2);
+          return invocation.proceed() + 1;
+        }
+      }
+
+      @Intercept(DoubleArgs)
+      class Calculator {
+        add(a: number, b: number) {
+          return a + b;
+        }
+      }
+
+      container.register({ type: 'class', token: Calculator, useClass: Calculator });
+
+      expect(container.resolve(Calculator).add(1, 2)).toBe(7);
+    });
+
+    it('should expose the target, token and method', () => {
+      let seen: InvocationContext | undefined;
+      const TOKEN = 'service';
+
+      container.addInterceptor(() => true, {
+        intercept(invocation) {
+          seen = invocation;
+          return invocation.proceed();
+        }
+      });
+      container.register({
+        type: 'class',
+        token: TOKEN,
+        useClass: class Service {
+          run() {
+            return 'ok';
+          }
+        }
+      });
+
+      const service = container.resolve<{ run(): string }>(TOKEN);
+      service.run();
+
+      expect(seen?.target).toBe(service);
+      expect(seen?.token).toBe(TOKEN);
+      expect(seen?.method).toBe('run');
+    });
+
+    it('should let interceptors translate errors', () => {
+      class WrapErrors implements IInterceptor {
+        intercept(invocation: InvocationContext) {
+          try {
+            return invocation.proceed();
+          } catch (error) {
+            throw new Error(`wrapped: ${(error as Error).message}`);
+          }
+        }
+      }
+
+      @Intercept(WrapErrors)
+      class Service {
+        fail() {
+          throw new Error('boom');
+        }
+      }
+
+      container.register({ type: 'class', token: Service, useClass: Service });
+
+      expect(() => container.resolve(Service).fail()).toThrow('wrapped: boom');
+    });
+
+    it('should support async methods and retries', async () => {
+      class RetryInterceptor implements IInterceptor {
+        async intercept(invocation: InvocationContext) {
+          for (let attempt = 1; ; attempt++) {
+            try {
+              return await invocation.proceed();
+            } catch (error) {
+              if (attempt === 3) throw error;
+            }
+          }
+        }
+      }
+
+      let attempts = 0;
+
+      @Intercept(RetryInterceptor)
+      class Client {
+        async fetch() {
+          attempts++;
+          if (attempts < 3) throw new Error('unavailable');
+          return 'data';
+        }
+      }
+
+      container.register({ type: 'class', token: Client, useClass: Client });
+
+      await expect(container.resolve(Client).fetch()).resolves.toBe('data');
+      expect(attempts).toBe(3);
+    });
+  });
+
+  describe('addInterceptor', () => {
+    it('should intercept services matching the predicate', () => {
+      class Matched {
+        run() {
+          return 'matched';
+        }
+      }
+
+      class Other {
+        run() {
+          return 'other';
+        }
+      }
+
+      container.addInterceptor(token => token === Matched, RecordingInterceptor);
+      container.register({ type: 'class', token: Matched, useClass: Matched });
+      container.register({ type: 'class', token: Other, useClass: Other });
+
+      container.resolve(Other).run();
+      container.resolve(Matched).run();
+
+      expect(calls).toEqual(['before run', 'after run']);
+    });
+
+    it('should apply parent interceptors in child containers', () => {
+      class Service {
+        run() {
+          return 'ok';
+        }
+      }
+
+      container.addInterceptor(() => true, RecordingInterceptor);
+      const child = container.createChild();
+      child.register({ type: 'class', token: Service, useClass: Service }, { scope: ServiceScope.TRANSIENT });
+
+      child.resolve(Service).run();
+      expect(calls).toEqual(['before run', 'after run']);
+    });
+
+    it('should not intercept interceptors or plain values', () => {
+      const config = { read: () => 'value' };
+
+      container.addInterceptor(() => true, RecordingInterceptor);
+      container.register({ type: 'value', token: 'config', useValue: config });
+      container.register({ type: 'class', token: RecordingInterceptor, useClass: RecordingInterceptor });
+
+      expect(container.resolve<typeof config>('config').read()).toBe('value');
+      expect(calls).toEqual([]);
+
+      const interceptor = container.resolve(RecordingInterceptor);
+      interceptor.intercept({ method: 'direct', proceed: () => undefined } as unknown as InvocationContext);
+      expect(calls).toEqual(['before direct', 'after direct']);
+    });
+
+    it('should not intercept the dependencies of an interceptor being resolved', () => {
+      class Logger {
+        log(message: string) {
+          calls.push(message);
+        }
+      }
+
+      class LoggingInterceptor implements IInterceptor {
+        @Inject(Logger)
+        logger!: Logger;
+
+        intercept(invocation: InvocationContext) {
+          this.logger.log(`call ${String(invocation.method)}`);
+          return invocation.proceed();
+        }
+      }
+
+      class Service {
+        run() {
+          return 'ok';
+        }
+      }
+
+      container.addInterceptor(() => true, LoggingInterceptor);
+      container.register({ type: 'class', token: Logger, useClass: Logger });
+      container.register({ type: 'class', token: Service, useClass: Service });
+
+      expect(container.resolve(Service).run()).toBe('ok');
+      container.resolve(Logger).log('direct');
+
+      expect(calls).toEqual(['call run', 'direct']);
+    });
+  });
+});
@@ -0,0 +1,219 @@
+// Lazy proxy tests
+
+import {
+  Container,
+  Inject,
+  PostConstruct,
+  CircularDependencyError,
+  ServiceScope,
+  isServiceProxy
+} from '../src';
+
+describe('Lazy Proxies', () => {
+  let container: Container;
+
+  beforeEach(() => {
+    container = new Container();
+  });
+
+  afterEach(async () => {
+    await container.dispose();
+  });
+
+  describe('resolveLazy', () => {
+    it('should defer instantiation until first member access', () => {
+      let created = 0;
+
+      class ReportEngine {
+        constructor() {
+          created++;
+        }
+
+        render() {
+          return 'report';
+        }
+      }
+
+      container.register({ type: 'class', token: ReportEngine, useClass: ReportEngine });
+      const engine = container.resolveLazy(ReportEngine);
+
+      expect(created).toBe(0);
+      expect(isServiceProxy(engine)).toBe(true);
+      expect(created).toBe(0);
+
+      expect(engine.render()).toBe('report');
+      expect(engine.render()).toBe('report');
+      expect(created).toBe(1);
+    });
+
+    it('should be transparent to property access, assignment and instanceof', () => {
+      class Settings {
+        theme = 'dark';
+      }
+
+      container.register({ type: 'class', token: Settings, useClass: Settings });
+      const settings = container.resolveLazy(Settings);
+
+      settings.theme = 'light';
+
+      expect(settings).toBeInstanceOf(Settings);
+      expect(container.resolve(Settings).theme).toBe('light');
+      expect(Object.keys(settings)).toEqual(['theme']);
+      expect('theme' in settings).toBe(true);
+    });
+
+    it('should call methods on the real instance', () => {
+      class Counter {
+        #count = 0;
+
+        increment() {
+          return ++this.#count;
+        }
+      }
+
+      container.register({ type: 'class', token: Counter, useClass: Counter });
+      const counter = container.resolveLazy(Counter);
+
+      counter.increment();
+      expect(counter.increment()).toBe(2);
+    });
+
+    it('should report missing services on first access', () => {
+      class Missing {
+        run() {}
+      }
+
+      const proxy = container.resolveLazy(Missing);
+      expect(() => proxy.run()).toThrow('Service not found');
+    });
+  });
+
+  describe('@Inject lazy', () => {
+    it('should let two services reference each other', () => {
+      class OrderService {
+        @Inject('CustomerService', { lazy: true })
+        customers!: CustomerService;
+
+        describe() {
+          return 'orders';
+        }
+      }
+
+      class CustomerService {
+        @Inject(OrderService)
+        orders!: OrderService;
+
+        describe() {
+          return 'customers';
+        }
+      }
+
+      container.register({ type: 'class', token: OrderService, useClass: OrderService });
+      container.register({ type: 'class', token: 'CustomerService', useClass: CustomerService });
+
+      const orders = container.resolve(OrderService);
+      expect(orders.customers.describe()).toBe('customers');
+      expect(orders.customers.orders).toBe(orders);
+    });
+
+    it('should still detect cycles without lazy injection', () => {
+      class A {
+        @Inject('B')
+        b!: unknown;
+      }
+
+      class B {
+        @Inject(A)
+        a!: unknown;
+      }
+
+      container.register({ type: 'class', token: A, useClass: A });
+      container.register({ type: 'class', token: 'B', useClass: B });
+
+      expect(() => container.resolve(A)).toThrow(CircularDependencyError);
+    });
+
+    it('should detect cycles reached through a lazy reference during construction', () => {
+      class OrderService {
+        @Inject('CustomerService', { lazy: true })
+        customers!: CustomerService;
+
+        @PostConstruct
+        init() {
+          this.customers.describe();
+        }
+      }
+
+      class CustomerService {
+        @Inject(OrderService)
+        orders!: OrderService;
+
+        describe() {
+          return 'customers';
+        }
+      }
+      new OrderService();
+
+      container.register({ type: 'class', token: OrderService, useClass: OrderService });
+      container.register({ type: 'class', token: 'CustomerService', useClass: CustomerService });
+
+      expect(() => container.resolve(OrderService)).toThrow(CircularDependencyError);
+      expect(() => container.resolve(OrderService)).toThrow('CustomerService -> CustomerService');
+    });
+
+    it('should not report lazy references as cycles during validation', () => {
+      class A {
+        @Inject('B', { lazy: true })
+        b!: unknown;
+      }
+
+      class B {
+        @Inject(A)
+        a!: unknown;
+      }
+
+      container.register({ type: 'class', token: A, useClass: A });
+      container.register({ type: 'class', token: 'B', useClass: B });
+      container.resolve(A);
+      container.resolve<B>('B');
+
+      expect(container.validate().issues.filter(issue => issue.type === 'circular')).toEqual([]);
+    });
+
+    it('should skip optional lazy dependencies that are not registered', () => {
+      class Service {
+        @Inject('metrics', { lazy: true, optional: true })
+        metrics?: object;
+      }
+
+      container.register({ type: 'class', token: Service, useClass: Service });
+
+      expect(container.resolve(Service).metrics).toBeUndefined();
+    });
+
+    it('should respect the scope of the deferred service', () => {
+      let created = 0;
+
+      class Worker {
+        constructor() {
+          created++;
+        }
+
+        id = Math.random();
+      }
+
+      class Pool {
+        @Inject(Worker, { lazy: true })
+        worker!: Worker;
+      }
+
+      container.register({ type: 'class', token: Worker, useClass: Worker }, { scope: ServiceScope.TRANSIENT });
+      container.register({ type: 'class', token: Pool, useClass: Pool });
+
+      const pool = container.resolve(Pool);
+      expect(created).toBe(0);
+      expect(pool.worker.id).toBe(pool.worker.id);
+      expect(created).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,170 @@
+// Module system tests
+
+import {
+  Container,
+  Module,
+  Injectable,
+  CircularModuleImportError,
+  ContainerError,
+  ServiceNotFoundError,
+  createMetadataKey
+} from '../src';
+
+describe('Module System', () => {
+  let container: Container;
+
+  beforeEach(() => {
+    container = new Container();
+  });
+
+  afterEach(async () => {
+    await container.dispose();
+  });
+
+  const DB_URL = createMetadataKey<string>('db.url');
+
+  class ConnectionPool {}
+
+  @Injectable({ deps: [ConnectionPool, DB_URL] })
+  class Database {
+    constructor(public readonly pool: ConnectionPool, public readonly url: string) {}
+  }
+
+  @Module({
+    providers: [
+      ConnectionPool,
+      Database,
+      { type: 'value', token: DB_URL, useValue: 'db://modules' }
+    ],
+    exports: [Database]
+  })
+  class DatabaseModule {}
+
+  @Injectable({ deps: [Database] })
+  class UserService {
+    constructor(public readonly database: Database) {}
+  }
+
+  @Module({
+    imports: [DatabaseModule],
+    providers: [UserService],
+    exports: [UserService]
+  })
+  class UserModule {}
+
+  it('should expose exported providers of the loaded module', () => {
+    container.loadModule(UserModule);
+
+    const service = container.resolve(UserService);
+    expect(service.database.url).toBe('db://modules');
+  });
+
+  it('should not leak internal or transitively imported providers', () => {
+    container.loadModule(UserModule);
+
+    expect(() => container.resolve(ConnectionPool)).toThrow(ServiceNotFoundError);
+    expect(() => container.resolve(Database)).toThrow(ServiceNotFoundError);
+  });
+
+  it('should only expose exported tokens to importers', () => {
+    const moduleContainer = container.loadModule(UserModule);
+
+    expect(moduleContainer.resolve(Database)).toBeInstanceOf(Database);
+    expect(() => moduleContainer.resolve(ConnectionPool)).toThrow(ServiceNotFoundError);
+  });
+
+  it('should not expose other modules\' exports to modules that do not import them', () => {
+    @Injectable({ deps: [Database] })
+    class ReportService {
+      constructor(public readonly database: Database) {}
+    }
+
+    @Module({ providers: [ReportService], exports: [ReportService] })
+    class ReportModule {}
+
+    container.loadModule(DatabaseModule);
+    container.loadModule(ReportModule);
+
+    expect(container.resolve(Database)).toBeInstanceOf(Database);
+    // ReportModule auto-binds its own Database, which cannot find DB_URL
+    expect(() => container.resolve(ReportService)).toThrow(ServiceNotFoundError);
+  });
+
+  it('should still share registrations of the root container with modules', () => {
+    const API_URL = createMetadataKey<string>('api.url');
+
+    @Injectable({ deps: [API_URL] })
+    class ApiClient {
+      constructor(public readonly url: string) {}
+    }
+
+    @Module({ providers: [ApiClient], exports: [ApiClient] })
+    class ApiModule {}
+
+    container.register({ type: 'value', token: API_URL, useValue: 'https://api.example.com' });
+    container.loadModule(ApiModule);
+
+    expect(container.resolve(ApiClient).url).toBe('https://api.example.com');
+  });
+
+  it('should resolve exported async providers with resolveAsync()', async () => {
+    const POOL = createMetadataKey<{ size: number }>('pool');
+
+    @Injectable({ deps: [POOL] })
+    class Repository {
+      constructor(public readonly pool: { size: number }) {}
+    }
+
+    @Module({
+      providers: [{ type: 'factory', token: POOL, useFactory: async () => ({ size: 10 }), async: true }],
+      exports: [POOL]
+    })
+    class PoolModule {}
+
+    @Module({ imports: [PoolModule], providers: [Repository], exports: [Repository] })
+    class RepositoryModule {}
+
+    container.loadModule(RepositoryModule);
+    container.loadModule(PoolModule);
+
+    const pool = await container.resolveAsync(POOL);
+    expect(pool).toEqual({ size: 10 });
+    expect((await container.resolveAsync(Repository)).pool).toBe(pool);
+  });
+
+  it('should load shared imports once', () => {
+    @Module({ imports: [DatabaseModule], providers: [], exports: [Database] })
+    class ReportingModule {}
+
+    @Module({ imports: [UserModule, ReportingModule], exports: [UserService, Database] })
+    class AppModule {}
+
+    container.loadModule(AppModule);
+
+    expect(container.resolve(UserService).database).toBe(container.resolve(Database));
+  });
+
+  it('should detect import cycles', () => {
+    class ModuleA {}
+    class ModuleB {}
+
+    Module({ imports: [ModuleB] })(ModuleA, {} as ClassDecoratorContext);
+    Module({ imports: [ModuleA] })(ModuleB, {} as ClassDecoratorContext);
+
+    expect(() => container.loadModule(ModuleA)).toThrow(CircularModuleImportError);
+    expect(() => container.loadModule(ModuleA)).toThrow('ModuleA -> ModuleB -> ModuleA');
+  });
+
+  it('should reject exports the module does not provide', () => {
+    @Module({ providers: [], exports: [ConnectionPool] })
+    class BrokenModule {}
+
+    expect(() => container.loadModule(BrokenModule)).toThrow(ContainerError);
+  });
+
+  it('should reject classes without @Module', () => {
+    class PlainClass {}
+
+    expect(() => container.loadModule(PlainClass)).toThrow('not decorated with @Module');
+  });
+});
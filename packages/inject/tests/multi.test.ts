@@ -0,0 +1,168 @@
+// Multi-injection tests
+
+import {
+  Container,
+  ContainerError,
+  ServiceScope,
+  InjectAll,
+  PreDestroy,
+  createMetadataKey
+} from '../src';
+
+interface Plugin {
+  name: string;
+}
+
+const PLUGIN = createMetadataKey<Plugin>('plugin');
+
+describe('Multi-injection', () => {
+  let container: Container;
+
+  beforeEach(() => {
+    container = new Container();
+  });
+
+  afterEach(async () => {
+    await container.dispose();
+  });
+
+  it('should resolve all multi providers in registration order', () => {
+    container.register({ type: 'value', token: PLUGIN, useValue: { name: 'auth' } }, { multi: true });
+    container.register({ type: 'factory', token: PLUGIN, useFactory: () => ({ name: 'cache' }) }, { multi: true });
+
+    class MetricsPlugin implements Plugin {
+      name = 'metrics';
+    }
+    container.register({ type: 'class', token: PLUGIN, useClass: MetricsPlugin }, { multi: true });
+
+    expect(container.resolveAll(PLUGIN).map(plugin => plugin.name)).toEqual(['auth', 'cache', 'metrics']);
+  });
+
+  it('should list parent providers before child providers', () => {
+    container.register({ type: 'value', token: PLUGIN, useValue: { name: 'root' } }, { multi: true });
+    const child = container.createChild();
+    child.register({ type: 'value', token: PLUGIN, useValue: { name: 'child' } }, { multi: true });
+
+    expect(child.resolveAll(PLUGIN).map(plugin => plugin.name)).toEqual(['root', 'child']);
+    expect(container.resolveAll(PLUGIN).map(plugin => plugin.name)).toEqual(['root']);
+  });
+
+  it('should honour the scope of each provider', () => {
+    container.register({ type: 'factory', token: PLUGIN, useFactory: () => ({ name: 'shared' }) }, { multi: true });
+    container.register(
+      { type: 'factory', token: PLUGIN, useFactory: () => ({ name: 'fresh' }) },
+      { multi: true, scope: ServiceScope.TRANSIENT }
+    );
+
+    const [shared1, fresh1] = container.resolveAll(PLUGIN);
+    const [shared2, fresh2] = container.resolveAll(PLUGIN);
+
+    expect(shared1).toBe(shared2);
+    expect(fresh1).not.toBe(fresh2);
+  });
+
+  it('should share parent singletons with child containers', () => {
+    container.register({ type: 'factory', token: PLUGIN, useFactory: () => ({ name: 'root' }) }, { multi: true });
+    const child = container.createChild();
+
+    expect(child.resolveAll(PLUGIN)[0]).toBe(container.resolveAll(PLUGIN)[0]);
+  });
+
+  it('should return an empty array for unknown tokens', () => {
+    expect(container.resolveAll(PLUGIN)).toEqual([]);
+  });
+
+  it('should wrap a regular registration in an array', () => {
+    container.register({ type: 'value', token: PLUGIN, useValue: { name: 'single' } });
+
+    expect(container.resolveAll(PLUGIN)).toEqual([{ name: 'single' }]);
+  });
+
+  it('should reject resolve() for tokens with only multi providers', () => {
+    container.register({ type: 'value', token: PLUGIN, useValue: { name: 'auth' } }, { multi: true });
+
+    expect(container.has(PLUGIN)).toBe(true);
+    expect(() => container.resolve(PLUGIN)).toThrow(ContainerError);
+    expect(() => container.resolve(PLUGIN)).toThrow('use resolveAll()');
+  });
+
+  it('should inject every provider with @InjectAll', () => {
+    class PluginHost {
+      @InjectAll(PLUGIN)
+      plugins!: Plugin[];
+    }
+
+    container.register({ type: 'value', token: PLUGIN, useValue: { name: 'auth' } }, { multi: true });
+    container.register({ type: 'value', token: PLUGIN, useValue: { name: 'cache' } }, { multi: true });
+    container.register({ type: 'class', token: PluginHost, useClass: PluginHost });
+
+    expect(container.resolve(PluginHost).plugins.map(plugin => plugin.name)).toEqual(['auth', 'cache']);
+  });
+
+  it('should inject an empty array when no provider is registered', () => {
+    class PluginHost {
+      @InjectAll(PLUGIN)
+      plugins!: Plugin[];
+    }
+
+    container.register({ type: 'class', token: PluginHost, useClass: PluginHost });
+
+    expect(container.resolve(PluginHost).plugins).toEqual([]);
+    expect(container.validate().valid).toBe(true);
+  });
+
+  it('should await async multi providers through resolveAsync', async () => {
+    class PluginHost {
+      @InjectAll(PLUGIN)
+      plugins!: Plugin[];
+    }
+    new PluginHost(); // record property metadata
+
+    container.register({ type: 'factory', token: PLUGIN, useFactory: async () => ({ name: 'remote' }) }, { multi: true });
+    container.register({ type: 'class', token: PluginHost, useClass: PluginHost });
+
+    expect(() => container.resolveAll(PLUGIN)).toThrow('resolveAsync()');
+    const host = await container.resolveAsync(PluginHost);
+    expect(host.plugins).toEqual([{ name: 'remote' }]);
+  });
+
+  it('should dispose multi singletons with the container', async () => {
+    const destroyed: string[] = [];
+
+    class DisposablePlugin implements Plugin {
+      name = 'disposable';
+
+      @PreDestroy
+      destroy() {
+        destroyed.push(this.name);
+      }
+    }
+
+    const local = new Container();
+    local.register({ type: 'class', token: PLUGIN, useClass: DisposablePlugin }, { multi: true });
+    local.resolveAll(PLUGIN);
+
+    await local.dispose();
+    expect(destroyed).toEqual(['disposable']);
+  });
+
+  it('should remove every multi provider on unbind', () => {
+    container.register({ type: 'value', token: PLUGIN, useValue: { name: 'auth' } }, { multi: true });
+    container.register({ type: 'value', token: PLUGIN, useValue: { name: 'cache' } }, { multi: true });
+
+    expect(container.unbind(PLUGIN)).toBe(true);
+    expect(container.has(PLUGIN)).toBe(false);
+    expect(container.resolveAll(PLUGIN)).toEqual([]);
+  });
+
+  it('should restore multi providers from a snapshot', () => {
+    container.register({ type: 'value', token: PLUGIN, useValue: { name: 'auth' } }, { multi: true });
+    const snapshot = container.snapshot();
+
+    container.register({ type: 'value', token: PLUGIN, useValue: { name: 'mock' } }, { multi: true });
+    expect(container.resolveAll(PLUGIN)).toHaveLength(2);
+
+    container.restore(snapshot);
+    expect(container.resolveAll(PLUGIN).map(plugin => plugin.name)).toEqual(['auth']);
+  });
+});
@@ -0,0 +1,97 @@
+// @Provide tests
+
+import {
+  Container,
+  Injectable,
+  Provide,
+  ServiceScope,
+  createMetadataKey,
+  getClassMetadata
+} from '../src';
+
+describe('@Provide', () => {
+  let container: Container;
+
+  const RETRY_LIMIT = createMetadataKey<number>('retryLimit');
+  const BASE_URL = createMetadataKey<string>('baseUrl');
+
+  class Config {
+    apiUrl = 'https://api.example.com';
+  }
+
+  class HttpClient {}
+
+  class FetchClient extends HttpClient {}
+
+  beforeEach(() => {
+    container = new Container();
+  });
+
+  afterEach(async () => {
+    await container.dispose();
+  });
+
+  it('should record providers in declaration order', () => {
+    @Provide(RETRY_LIMIT, 3)
+    @Provide({ type: 'class', token: HttpClient, useClass: FetchClient })
+    class ApiClient {}
+
+    expect(getClassMetadata(ApiClient)?.providers).toEqual([
+      { type: 'value', token: RETRY_LIMIT, useValue: 3 },
+      { type: 'class', token: HttpClient, useClass: FetchClient }
+    ]);
+  });
+
+  it('should register value, class and factory providers with the class', () => {
+    @Injectable({ deps: [RETRY_LIMIT, HttpClient, BASE_URL] })
+    @Provide(RETRY_LIMIT, 3)
+    @Provide({ type: 'class', token: HttpClient, useClass: FetchClient, scope: ServiceScope.TRANSIENT })
+    @Provide({ type: 'factory', token: BASE_URL, useFactory: (config: Config) => config.apiUrl, deps: [Config] })
+    class ApiClient {
+      constructor(public retries: number, public http: HttpClient, public baseUrl: string) {}
+    }
+
+    container.register({ type: 'class', token: Config, useClass: Config });
+    container.register({ type: 'class', token: ApiClient, useClass: ApiClient });
+
+    const client = container.resolve(ApiClient);
+    expect(client.retries).toBe(3);
+    expect(client.http).toBeInstanceOf(FetchClient);
+    expect(client.baseUrl).toBe('https://api.example.com');
+    expect(container.resolve(HttpClient)).not.toBe(client.http);
+  });
+
+  it('should keep tokens that are already bound', () => {
+    @Provide(RETRY_LIMIT, 3)
+    class ApiClient {}
+
+    container.register({ type: 'value', token: RETRY_LIMIT, useValue: 5 });
+    const child = container.createChild();
+    child.register({ type: 'class', token: ApiClient, useClass: ApiClient });
+
+    expect(child.resolve(RETRY_LIMIT)).toBe(5);
+  });
+
+  it('should be overridden by later registrations', () => {
+    @Provide(RETRY_LIMIT, 3)
+    class ApiClient {}
+
+    container.register({ type: 'class', token: ApiClient, useClass: ApiClient });
+    container.register({ type: 'value', token: RETRY_LIMIT, useValue: 0 });
+
+    expect(container.resolve(RETRY_LIMIT)).toBe(0);
+  });
+
+  it('should register providers of provided classes', () => {
+    @Provide(RETRY_LIMIT, 3)
+    class RetryingClient extends HttpClient {}
+
+    @Provide({ type: 'class', token: HttpClient, useClass: RetryingClient })
+    class ApiClient {}
+
+    container.register({ type: 'class', token: 'api', useClass: ApiClient });
+
+    expect(container.resolve(HttpClient)).toBeInstanceOf(RetryingClient);
+    expect(container.resolve(RETRY_LIMIT)).toBe(3);
+  });
+});
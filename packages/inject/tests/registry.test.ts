@@ -0,0 +1,117 @@
+// Injectable registry and scan tests
+
+import {
+  Container,
+  ContainerFactory,
+  Injectable,
+  clearInjectableRegistry,
+  createMetadataKey,
+  getRegisteredInjectables
+} from '../src';
+
+describe('Injectable Registry', () => {
+  let container: Container;
+
+  beforeEach(() => {
+    container = new Container();
+  });
+
+  afterEach(async () => {
+    clearInjectableRegistry();
+    await container.dispose();
+  });
+
+  it('should only record classes that opt in', () => {
+    @Injectable()
+    class Plain {}
+
+    @Injectable({ discoverable: true, scope: 'transient', tags: ['http'], package: 'users' })
+    class UserController {}
+
+    expect(getRegisteredInjectables()).toEqual([
+      { target: UserController, token: UserController, scope: 'transient', tags: ['http'], package: 'users' }
+    ]);
+    expect(getRegisteredInjectables().map(entry => entry.target)).not.toContain(Plain);
+  });
+
+  it('should bind every discovered class with its scope, token and tags', () => {
+    interface Mailer {
+      send(): string;
+    }
+    const MAILER = createMetadataKey<Mailer>('mailer');
+
+    @Injectable({ discoverable: true })
+    class Config {}
+
+    @Injectable({ discoverable: true, token: MAILER, tags: ['notifications'] })
+    class SmtpMailer implements Mailer {
+      send() {
+        return 'smtp';
+      }
+    }
+
+    @Injectable({ discoverable: true, scope: 'transient', deps: [Config, MAILER] })
+    class SignupService {
+      constructor(public config: Config, public mailer: Mailer) {}
+    }
+
+    container.scan();
+
+    const signup = container.resolve(SignupService);
+    expect(signup.config).toBe(container.resolve(Config));
+    expect(signup.mailer).toBeInstanceOf(SmtpMailer);
+    expect(container.resolve(SignupService)).not.toBe(signup);
+    expect(container.has(SmtpMailer)).toBe(false);
+    expect(container.resolveByTag('notifications')).toEqual([container.resolve(MAILER)]);
+  });
+
+  it('should filter by tag and package', () => {
+    @Injectable({ discoverable: true, tags: ['http'], package: 'users' })
+    class UserController {}
+
+    @Injectable({ discoverable: true, tags: ['http'], package: 'billing' })
+    class InvoiceController {}
+
+    @Injectable({ discoverable: true, tags: ['jobs'], package: 'billing' })
+    class InvoiceJob {}
+
+    @Injectable({ discoverable: true })
+    class Untagged {}
+
+    container.scan({ tags: ['http'] });
+    expect(container.getServices()).toEqual([UserController, InvoiceController]);
+
+    const billing = ContainerFactory.createFromRegistry({ packages: ['billing'] });
+    expect(billing.getServices()).toEqual([InvoiceController, InvoiceJob]);
+
+    const billingHttp = ContainerFactory.createFromRegistry({ tags: ['http'], packages: ['billing'] });
+    expect(billingHttp.getServices()).toEqual([InvoiceController]);
+    expect(ContainerFactory.createFromRegistry().getServices()).toContain(Untagged);
+  });
+
+  it('should keep explicit registrations over discovered ones', () => {
+    @Injectable({ discoverable: true, token: 'clock' })
+    class SystemClock {}
+
+    class FakeClock {}
+
+    container.register({ type: 'class', token: 'clock', useClass: FakeClock });
+    container.scan();
+
+    expect(container.resolve('clock')).toBeInstanceOf(FakeClock);
+    expect(SystemClock).toBeDefined();
+  });
+
+  it('should pass options to createFromRegistry', () => {
+    @Injectable({ discoverable: true, scope: 'transient' })
+    class Transaction {}
+
+    @Injectable({ discoverable: true, deps: [Transaction] })
+    class Repository {
+      constructor(public transaction: Transaction) {}
+    }
+
+    expect(() => ContainerFactory.createFromRegistry(undefined, { captiveDependencies: 'throw' }))
+      .toThrow('Captive dependency: singleton service Repository depends on transient service Transaction');
+  });
+});
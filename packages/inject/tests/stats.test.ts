@@ -0,0 +1,193 @@
+// Container statistics tests
+
+import {
+  Container,
+  Injectable,
+  ServiceScope,
+  ContainerStats,
+  PERFORMANCE_CONSTANTS
+} from '../src';
+
+describe('Container Statistics', () => {
+  let container: Container;
+
+  beforeEach(() => {
+    container = new Container();
+  });
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    await container.dispose();
+  });
+
+  it('should count resolutions, creations and cache hits per token', () => {
+    class Config {}
+
+    @Injectable({ deps: [Config] })
+    class Service {
+      constructor(public config: Config) {}
+    }
+
+    class Job {}
+
+    container.register({ type: 'class', token: Config, useClass: Config });
+    container.register({ type: 'class', token: Service, useClass: Service });
+    container.register({ type: 'class', token: Job, useClass: Job }, { scope: ServiceScope.TRANSIENT });
+
+    container.resolve(Service);
+    container.resolve(Service);
+    container.resolve(Config);
+    container.resolve(Job);
+    container.resolve(Job);
+
+    const stats = container.getStats();
+    const byName = Object.fromEntries(stats.services.map(service => [service.name, service]));
+
+    expect(byName.Service).toMatchObject({ resolutions: 2, instancesCreated: 1, cacheHits: 1 });
+    expect(byName.Config).toMatchObject({ resolutions: 2, instancesCreated: 1, cacheHits: 1 });
+    expect(byName.Job).toMatchObject({ resolutions: 2, instancesCreated: 2, cacheHits: 0 });
+    expect(stats.resolutions).toBe(6);
+    expect(stats.registrations).toBe(3);
+    expect(stats.cachedInstances).toBe(2);
+  });
+
+  it('should compute the cache hit ratio from cacheable resolutions', () => {
+    container.register({ type: 'factory', token: 'cached', useFactory: () => ({}) });
+    container.register({ type: 'factory', token: 'transient', useFactory: () => ({}) }, { scope: ServiceScope.TRANSIENT });
+
+    expect(container.getStats().cacheHitRatio).toBe(0);
+
+    for (let i = 0; i < 4; i++) {
+      container.resolve('cached');
+      container.resolve('transient');
+    }
+
+    const stats = container.getStats();
+    expect(stats.cacheHits).toBe(3);
+    expect(stats.cacheMisses).toBe(1);
+    expect(stats.cacheHitRatio).toBe(0.75);
+  });
+
+  it('should time constructors without their dependencies', () => {
+    let now = 0;
+    const spy = jest.spyOn(performance, 'now').mockImplementation(() => now);
+
+    class Slow {
+      constructor() {
+        now += 50;
+      }
+    }
+
+    @Injectable({ deps: [Slow] })
+    class Fast {
+      constructor(public slow: Slow) {
+        now += 2;
+      }
+    }
+
+    container.register({ type: 'class', token: Slow, useClass: Slow });
+    container.register({ type: 'class', token: Fast, useClass: Fast });
+    container.register({ type: 'factory', token: 'factory', useFactory: () => (now += 0.5, {}) });
+    container.resolve(Fast);
+    container.resolve('factory');
+    spy.mockRestore();
+
+    const stats = container.getStats();
+
+    expect(stats.slowestConstructors.map(service => [service.name, service.maxCreationTimeMs])).toEqual([
+      ['Slow', 50],
+      ['Fast', 2],
+      ['factory', 0.5]
+    ]);
+    expect(stats.creationTimeHistogram.map(bucket => bucket.count)).toEqual([0, 1, 1, 1, 0, 0]);
+    expect(stats.creationTimeHistogram.map(bucket => bucket.upperBoundMs)).toEqual([
+      ...PERFORMANCE_CONSTANTS.CREATION_TIME_BUCKETS_MS,
+      Infinity
+    ]);
+  });
+
+  it('should time async factories', async () => {
+    container.registerAsync('pool', async () => {
+      await new Promise(resolve => setTimeout(resolve, 20));
+      return {};
+    });
+
+    await container.resolveAsync('pool');
+
+    const [pool] = container.getStats().services;
+    expect(pool?.instancesCreated).toBe(1);
+    expect(pool?.maxCreationTimeMs).toBeGreaterThanOrEqual(15);
+  });
+
+  it('should count evictions', () => {
+    container = new Container({ maxCacheSize: 1 });
+    container.register({ type: 'factory', token: 'a', useFactory: () => ({}) }, { scope: ServiceScope.CACHED });
+    container.register({ type: 'factory', token: 'b', useFactory: () => ({}) }, { scope: ServiceScope.CACHED });
+
+    container.resolve('a');
+    container.resolve('b');
+
+    expect(container.getStats().evictions).toBe(1);
+  });
+
+  it('should count parent singletons in the parent container', () => {
+    container.register({ type: 'factory', token: 'shared', useFactory: () => ({}) });
+    const child = container.createChild();
+
+    child.resolve('shared');
+    child.resolve('shared');
+
+    expect(child.getStats().resolutions).toBe(0);
+    expect(container.getStats().resolutions).toBe(2);
+  });
+
+  describe('startStatsReporter', () => {
+    it('should report stats every interval until stopped', () => {
+      jest.useFakeTimers();
+      const reports: ContainerStats[] = [];
+      container.register({ type: 'factory', token: 'service', useFactory: () => ({}) });
+
+      const stop = container.startStatsReporter(stats => {
+        reports.push(stats);
+      }, { intervalMs: 1000 });
+      container.resolve('service');
+      jest.advanceTimersByTime(2000);
+      stop();
+      jest.advanceTimersByTime(2000);
+
+      expect(reports).toHaveLength(2);
+      expect(reports[0]?.resolutions).toBe(1);
+    });
+
+    it('should stop reporting when the container is disposed', async () => {
+      jest.useFakeTimers();
+      const reporter = jest.fn();
+
+      container.startStatsReporter(reporter);
+      await container.dispose();
+      jest.advanceTimersByTime(PERFORMANCE_CONSTANTS.STATS_COLLECTION_INTERVAL_MS * 2);
+
+      expect(reporter).not.toHaveBeenCalled();
+    });
+
+    it('should pass reporter failures to onError and keep reporting', async () => {
+      jest.useFakeTimers();
+      const errors: unknown[] = [];
+      let calls = 0;
+
+      container.startStatsReporter(async () => {
+        calls++;
+        throw new Error('export failed');
+      }, { intervalMs: 1000, onError: error => errors.push(error) });
+      container.startStatsReporter(() => {
+        throw new Error('reporter failed');
+      }, { intervalMs: 1000, onError: error => errors.push(error) });
+      jest.advanceTimersByTime(2000);
+      await Promise.resolve();
+
+      expect(calls).toBe(2);
+      expect(errors.map(error => (error as Error).message).sort())
+        .toEqual(['export failed', 'export failed', 'reporter failed', 'reporter failed']);
+    });
+  });
+});
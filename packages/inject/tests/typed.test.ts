@@ -0,0 +1,169 @@
+// Typed container API tests
+//
+// The @ts-expect-error lines are the actual assertions for compile-time
+// checks; the runtime expectations only cover the registrations themselves.
+
+import {
+  Container,
+  Injectable,
+  ServiceScope,
+  StaticInjectConstructor,
+  createMetadataKey
+} from '../src';
+
+describe('Typed Container API', () => {
+  let container: Container;
+
+  class Config {
+    url = 'postgres://localhost';
+  }
+
+  class Logger {
+    log(message: string) {
+      return message;
+    }
+  }
+
+  const PORT = createMetadataKey<number>('port');
+
+  beforeEach(() => {
+    container = new Container();
+  });
+
+  afterEach(async () => {
+    await container.dispose();
+  });
+
+  describe('resolve', () => {
+    it('should infer the return type from the token', () => {
+      container.register({ type: 'class', token: Config, useClass: Config });
+      container.register({ type: 'value', token: PORT, useValue: 5432 });
+
+      const config: Config = container.resolve(Config);
+      const port: number = container.resolve(PORT);
+
+      // @ts-expect-error - Config is not a Logger
+      const logger: Logger = container.resolve(Config);
+      // @ts-expect-error - the port key resolves to a number
+      const url: string = container.resolve(PORT);
+
+      expect(config).toBeInstanceOf(Config);
+      expect(port).toBe(5432);
+      expect(logger).toBe(config);
+      expect(url).toBe(5432);
+    });
+
+    it('should take an explicit type for string tokens', () => {
+      container.register({ type: 'value', token: 'greeting', useValue: 'hello' });
+
+      const greeting = container.resolve<string>('greeting');
+
+      expect(greeting.toUpperCase()).toBe('HELLO');
+    });
+  });
+
+  describe('registerTyped', () => {
+    it('should register providers checked against one service type', () => {
+      class ConsoleLogger extends Logger {}
+
+      container.registerTyped<Logger>({ type: 'class', token: Logger, useClass: ConsoleLogger });
+      container.registerTyped({ type: 'value', token: PORT, useValue: 8080 });
+
+      // @ts-expect-error - Config does not implement Logger
+      container.registerTyped<Logger>({ type: 'class', token: 'logger', useClass: Config });
+      // @ts-expect-error - the port key takes a number
+      container.registerTyped({ type: 'value', token: PORT, useValue: '8080' });
+
+      expect(container.resolveTyped(Logger)).toBeInstanceOf(ConsoleLogger);
+      expect(container.resolveTyped(PORT)).toBe('8080');
+    });
+  });
+
+  describe('registerFactory', () => {
+    it('should pass the resolved dependencies in order', () => {
+      container.register({ type: 'class', token: Config, useClass: Config });
+      container.register({ type: 'value', token: PORT, useValue: 5432 });
+
+      container.registerFactory('dsn', (config, port) => `${config.url}:${port.toFixed(0)}`, [Config, PORT]);
+
+      expect(container.resolve<string>('dsn')).toBe('postgres://localhost:5432');
+    });
+
+    it('should reject factories that do not match their dependencies', () => {
+      container.register({ type: 'class', token: Config, useClass: Config });
+
+      // @ts-expect-error - the first dependency is a Config, not a Logger
+      container.registerFactory('log', (logger: Logger) => logger.log('started'), [Config]);
+      // @ts-expect-error - a Config factory must return a Config
+      container.registerFactory(Config, () => new Logger(), []);
+
+      expect(container.has('log')).toBe(true);
+    });
+
+    it('should honor the scope argument', () => {
+      class Request {}
+
+      container.registerFactory(Request, () => new Request(), [], ServiceScope.TRANSIENT);
+
+      expect(container.resolve(Request)).not.toBe(container.resolve(Request));
+    });
+  });
+
+  describe('static inject', () => {
+    it('should check the tuple against the constructor parameters', () => {
+      class ReportService {
+        static inject = [Logger, PORT] as const;
+
+        constructor(public readonly logger: Logger, public readonly port: number) {}
+      }
+
+      class SwappedReportService {
+        static inject = [PORT, Logger] as const;
+
+        constructor(public readonly logger: Logger, public readonly port: number) {}
+      }
+
+      class ShortReportService {
+        static inject = [Logger] as const;
+
+        constructor(public readonly logger: Logger, public readonly port: number) {}
+      }
+
+      ReportService satisfies StaticInjectConstructor<typeof ReportService.inject>;
+      // @ts-expect-error - the tuple lists the port before the logger
+      SwappedReportService satisfies StaticInjectConstructor<typeof SwappedReportService.inject>;
+      // @ts-expect-error - the tuple has no token for the port parameter
+      ShortReportService satisfies StaticInjectConstructor<typeof ShortReportService.inject>;
+
+      container.register({ type: 'class', token: Logger, useClass: Logger });
+      container.register({ type: 'value', token: PORT, useValue: 5432 });
+      container.register({ type: 'class', token: ReportService, useClass: ReportService });
+
+      expect(container.resolve(ReportService).port).toBe(5432);
+    });
+
+    it('should check the tuple of @Injectable classes', () => {
+      @Injectable()
+      class ReportService {
+        static inject = [Logger, PORT] as const;
+
+        constructor(public readonly logger: Logger, public readonly port: number) {}
+      }
+
+      // @ts-expect-error - the tuple lists the port before the logger
+      @Injectable()
+      class SwappedReportService {
+        static inject = [PORT, Logger] as const;
+
+        constructor(public readonly logger: Logger, public readonly port: number) {}
+      }
+
+      container.register({ type: 'class', token: Logger, useClass: Logger });
+      container.register({ type: 'value', token: PORT, useValue: 5432 });
+      container.register({ type: 'class', token: ReportService, useClass: ReportService });
+
+      expect(container.resolve(ReportService).port).toBe(5432);
+      expect(SwappedReportService.inject).toHaveLength(2);
+    });
+  });
+});